@@ -0,0 +1,165 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import {
+  clearUserAvailability,
+  formatAvailabilityTable,
+  getUserAvailability,
+  parseAvailabilityText,
+  serializeAvailability,
+  setUserAvailability,
+  UserAvailability,
+} from '../services/availability';
+import { resolveTimezone } from '../services/timezones';
+
+// Custom ID prefix for the edit button: availability:edit:<userId>
+export const AVAILABILITY_BUTTON_PREFIX = 'availability:';
+
+// Custom ID prefix for the edit modal
+export const AVAILABILITY_MODAL_PREFIX = 'availability-modal:';
+
+// Discord limits a text input to 4000 characters
+const MAX_INPUT_LENGTH = 4000;
+
+export const availabilityCommand = new SlashCommandBuilder()
+  .setName('availability')
+  .setDescription('View or correct the weekly availability read from your schedule')
+  .addSubcommand((subcommand) =>
+    subcommand.setName('show').setDescription('Show your stored availability')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('edit').setDescription('Edit your availability as text')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('clear').setDescription('Forget your stored availability')
+  );
+
+/**
+ * Build a message showing a user's availability table with an Edit button
+ */
+export function buildAvailabilityMessage(
+  userId: string,
+  availability: UserAvailability,
+  intro?: string
+): { content: string; components: ActionRowBuilder<ButtonBuilder>[] } {
+  const edit = new ButtonBuilder()
+    .setCustomId(`${AVAILABILITY_BUTTON_PREFIX}edit:${userId}`)
+    .setLabel('Edit availability')
+    .setStyle(ButtonStyle.Secondary);
+
+  const header = intro || `📅 Availability for <@${userId}>:`;
+  return {
+    content: `${header}\n${formatAvailabilityTable(availability)}`,
+    components: [new ActionRowBuilder<ButtonBuilder>().addComponents(edit)],
+  };
+}
+
+// Open a modal pre-filled with the user's availability, one block per line
+async function showAvailabilityModal(
+  interaction: ChatInputCommandInteraction | ButtonInteraction
+): Promise<void> {
+  const availability = getUserAvailability(interaction.user.id);
+  const input = new TextInputBuilder()
+    .setCustomId('blocks')
+    .setLabel('One per line: "Mon 09:00-12:00 busy Label"')
+    .setStyle(TextInputStyle.Paragraph)
+    .setPlaceholder('Mon 09:00-12:00 busy Standup\nFri 13:00-17:00 free\n2025-06-23 all day busy Holiday')
+    .setMaxLength(MAX_INPUT_LENGTH)
+    .setRequired(true);
+  const current = availability ? serializeAvailability(availability) : '';
+  if (current && current.length <= MAX_INPUT_LENGTH) {
+    input.setValue(current);
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${AVAILABILITY_MODAL_PREFIX}${interaction.user.id}`)
+    .setTitle('Correct your availability')
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+
+  await interaction.showModal(modal);
+}
+
+// Handle the /availability slash command
+export async function handleAvailabilityCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const availability = getUserAvailability(interaction.user.id);
+
+  if (subcommand === 'edit') {
+    await showAvailabilityModal(interaction);
+  } else if (subcommand === 'clear') {
+    clearUserAvailability(interaction.user.id);
+    await interaction.reply({ content: '🧹 Your stored availability was removed.', ephemeral: true });
+  } else if (!availability) {
+    await interaction.reply({
+      content: '📭 No availability stored yet. Upload a schedule image or use /availability edit.',
+      ephemeral: true,
+    });
+  } else {
+    await interaction.reply({
+      ...buildAvailabilityMessage(interaction.user.id, availability),
+      ephemeral: true,
+    });
+  }
+}
+
+// Handle a click on the Edit availability button
+export async function handleAvailabilityButton(
+  interaction: ButtonInteraction
+): Promise<void> {
+  const [, ownerId] = interaction.customId.substring(AVAILABILITY_BUTTON_PREFIX.length).split(':');
+
+  if (interaction.user.id !== ownerId) {
+    await interaction.reply({
+      content: `🔒 Only <@${ownerId}> can edit this availability.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await showAvailabilityModal(interaction);
+}
+
+// Handle the edit modal: parse the lines and store the corrected availability
+export async function handleAvailabilityModal(
+  interaction: ModalSubmitInteraction
+): Promise<void> {
+  const existing = getUserAvailability(interaction.user.id);
+  const timezone = existing?.timezone || resolveTimezone(interaction.user.id, interaction.guildId || undefined);
+  const { availability, warnings } = parseAvailabilityText(
+    interaction.fields.getTextInputValue('blocks'),
+    timezone
+  );
+
+  if (availability.recurring.length === 0 && availability.exceptions.length === 0) {
+    await interaction.reply({
+      content: `⚠️ No valid lines found - nothing was changed.\n${warnings.slice(0, 5).join('\n')}`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  setUserAvailability(interaction.user.id, availability);
+  const message = buildAvailabilityMessage(
+    interaction.user.id,
+    availability,
+    `✅ Availability updated for <@${interaction.user.id}>:`
+  );
+  const notes = warnings.length ? `\n⚠️ ${warnings.slice(0, 5).join('\n⚠️ ')}` : '';
+
+  if (interaction.isFromMessage()) {
+    await interaction.update({ ...message, content: `${message.content}${notes}` });
+  } else {
+    await interaction.reply({ ...message, content: `${message.content}${notes}`, ephemeral: true });
+  }
+}
@@ -0,0 +1,53 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { bookProposalOption, getUserProposal } from '../services/booking';
+import { advanceDialog } from '../services/dialog';
+import { archiveSessionThread, meetingChannelId } from '../services/whisper';
+import { buildMeetingMessage } from './meeting';
+
+export const bookCommand = new SlashCommandBuilder()
+  .setName('book')
+  .setDescription('Book one of the suggested meeting times')
+  .addIntegerOption((option) =>
+    option
+      .setName('option')
+      .setDescription('Number of the suggested slot to book')
+      .setRequired(true)
+      .setMinValue(1)
+  );
+
+// Handle the /book slash command
+export async function handleBookCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const option = interaction.options.getInteger('option', true);
+
+  const proposal = getUserProposal(interaction.user.id);
+  if (!proposal) {
+    await interaction.reply({
+      content: '⚠️ There are no meeting suggestions to book. Run /schedule first.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+  try {
+    const meeting = await bookProposalOption(
+      proposal.id,
+      option,
+      interaction.user.id,
+      meetingChannelId(interaction.guildId || undefined, interaction.channelId)
+    );
+    // A voice conversation's dialog is done once its proposal is booked
+    const turn =
+      proposal.source === 'conversation'
+        ? await advanceDialog(proposal.sessionId || proposal.ownerId, { kind: 'booked', meeting })
+        : undefined;
+    await interaction.editReply(buildMeetingMessage(meeting));
+    await archiveSessionThread(interaction.guildId || undefined, turn?.dialog.threadId);
+  } catch (error) {
+    console.error('Error booking meeting:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.editReply(`⚠️ Could not book the meeting: ${message}`);
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { getGuildConfig, GuildConfig, updateGuildConfig } from '../services/guild-config';
+import {
+  getListeningMode,
+  ListeningMode,
+  LISTENING_MODES,
+  setListeningMode,
+  shouldAutoJoin,
+} from '../services/listening';
+import {
+  formatReminderOffset,
+  getReminderSettings,
+  parseReminderOffsets,
+  REMINDER_DELIVERIES,
+  ReminderDelivery,
+} from '../services/reminders';
+import { getDefaultTimezone, getGuildTimezone, setGuildTimezone } from '../services/timezones';
+import { getGuildVoiceSettings, setGuildVoiceSettings } from '../services/tts';
+
+export const configCommand = new SlashCommandBuilder()
+  .setName('config')
+  .setDescription('Configure the bot for this server')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('channel')
+      .setDescription('Choose where the bot posts replies (leave empty to reply where you talk to it)')
+      .addChannelOption((option) =>
+        option
+          .setName('channel')
+          .setDescription('Text channel for voice, image and text replies')
+          .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('auto-join')
+      .setDescription('Choose whether the bot joins voice channels on its own')
+      .addBooleanOption((option) =>
+        option
+          .setName('enabled')
+          .setDescription('Join when someone enters a voice channel (leave empty to follow the listening mode)')
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('timezone')
+      .setDescription('Set the default timezone for this server')
+      .addStringOption((option) =>
+        option
+          .setName('zone')
+          .setDescription('IANA timezone, e.g. Europe/Berlin or Asia/Bangkok')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('language')
+      .setDescription('Set the language the bot listens and speaks in')
+      .addStringOption((option) =>
+        option
+          .setName('language')
+          .setDescription('Language code, e.g. en, de or pt-br')
+          .setRequired(true)
+          .setMaxLength(10)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('listening')
+      .setDescription('Choose when the bot handles speech')
+      .addStringOption((option) =>
+        option
+          .setName('mode')
+          .setDescription('Listening mode')
+          .setRequired(true)
+          .addChoices(...LISTENING_MODES.map((mode) => ({ name: mode, value: mode })))
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('reminders')
+      .setDescription('Choose when and where meeting reminders are sent (leave empty for the defaults)')
+      .addStringOption((option) =>
+        option
+          .setName('times')
+          .setDescription('Times before the meeting, e.g. "1d, 10m", or "off"')
+          .setMaxLength(100)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('delivery')
+          .setDescription('DM every attendee, or post in the channel the meeting was booked in')
+          .addChoices(...REMINDER_DELIVERIES.map((delivery) => ({ name: delivery, value: delivery })))
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('show').setDescription('Show the settings for this server')
+  );
+
+// Reminder changes from the /config reminders options; no options resets both
+function reminderChanges(interaction: ChatInputCommandInteraction): Partial<GuildConfig> {
+  const times = interaction.options.getString('times');
+  const delivery = interaction.options.getString('delivery') as ReminderDelivery | null;
+  if (times === null && delivery === null) {
+    return { reminderOffsets: undefined, reminderDelivery: undefined };
+  }
+  return {
+    ...(times !== null && { reminderOffsets: parseReminderOffsets(times) }),
+    ...(delivery !== null && { reminderDelivery: delivery }),
+  };
+}
+
+function formatConfig(guildId: string): string {
+  const config = getGuildConfig(guildId);
+  const reminders = getReminderSettings(guildId);
+  const reminderTimes = reminders.offsets.length
+    ? `${reminders.offsets.map(formatReminderOffset).join(', ')} before, by ${
+        reminders.delivery === 'dm' ? 'DM' : 'channel message'
+      }`
+    : 'off';
+  return [
+    '⚙️ **Server settings**',
+    `📢 Replies: ${config.outputChannelId ? `<#${config.outputChannelId}>` : 'where the conversation started'}`,
+    `🤖 Auto-join voice: ${shouldAutoJoin(guildId) ? 'on' : 'off'}${
+      config.autoJoin === undefined ? ' (follows the listening mode)' : ''
+    }`,
+    `🌍 Timezone: ${getGuildTimezone(guildId) || `${getDefaultTimezone()} (default)`}`,
+    `🗣️ Language: ${getGuildVoiceSettings(guildId).language || 'auto'}`,
+    `👂 Listening mode: ${getListeningMode(guildId)}`,
+    `⏰ Reminders: ${reminderTimes}${
+      config.reminderOffsets === undefined && config.reminderDelivery === undefined ? ' (default)' : ''
+    }`,
+  ].join('\n');
+}
+
+// Handle the /config slash command
+export async function handleConfigCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const guildId = interaction.guildId;
+
+  if (!guildId) {
+    await interaction.reply({ content: '⚠️ Settings can only be changed in a server.', ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'show') {
+    await interaction.reply({ content: formatConfig(guildId), ephemeral: true });
+    return;
+  }
+
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({
+      content: '🔒 You need the Manage Server permission to change the server settings.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    switch (subcommand) {
+      case 'channel':
+        updateGuildConfig(guildId, { outputChannelId: interaction.options.getChannel('channel')?.id });
+        break;
+      case 'auto-join':
+        updateGuildConfig(guildId, { autoJoin: interaction.options.getBoolean('enabled') ?? undefined });
+        break;
+      case 'timezone':
+        setGuildTimezone(guildId, interaction.options.getString('zone', true).trim());
+        break;
+      case 'language':
+        setGuildVoiceSettings(guildId, {
+          language: interaction.options.getString('language', true).trim().toLowerCase(),
+        });
+        break;
+      case 'listening':
+        setListeningMode(guildId, interaction.options.getString('mode', true) as ListeningMode);
+        break;
+      case 'reminders':
+        updateGuildConfig(guildId, reminderChanges(interaction));
+        break;
+    }
+    await interaction.reply(`✅ Updated.\n${formatConfig(guildId)}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.reply({ content: `⚠️ ${message}`, ephemeral: true });
+  }
+}
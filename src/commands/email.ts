@@ -0,0 +1,27 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { linkUserEmail } from '../services/attendees';
+import { validateEmail } from '../utils/validators';
+
+export const emailCommand = new SlashCommandBuilder()
+  .setName('myemail')
+  .setDescription('Link your calendar email so others can @mention you in /schedule')
+  .addStringOption((option) =>
+    option.setName('email').setDescription('Your calendar email').setRequired(true)
+  );
+
+// Handle the /myemail slash command
+export async function handleEmailCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const email = validateEmail(interaction.options.getString('email'));
+  if (!email.ok) {
+    await interaction.reply({ content: `⚠️ ${email.error}`, ephemeral: true });
+    return;
+  }
+
+  linkUserEmail(interaction.user.id, email.value.toLowerCase());
+  await interaction.reply({
+    content: `📧 Linked your calendar to ${email.value}.`,
+    ephemeral: true,
+  });
+}
@@ -0,0 +1,129 @@
+import { REST } from '@discordjs/rest';
+import { Interaction, RepliableInteraction, Routes } from 'discord.js';
+import {
+  scheduleCommand,
+  handleScheduleCommand,
+  handleScheduleFixButton,
+  handleScheduleFixModal,
+  SCHEDULE_FIX_BUTTON_PREFIX,
+  SCHEDULE_FIX_MODAL_PREFIX,
+} from './schedule';
+import { emailCommand, handleEmailCommand } from './email';
+import { bookCommand, handleBookCommand } from './book';
+import { handleSuggestionButton, SUGGESTION_BUTTON_PREFIX } from './suggestions';
+import { handleReminderButton, REMINDER_BUTTON_PREFIX } from './reminders';
+import { timezoneCommand, handleTimezoneCommand } from './timezone';
+import { meetingCommand, handleMeetingCommand } from './meeting';
+import { voiceCommand, handleVoiceCommand } from './voice';
+import { listenCommand, handleListenCommand } from './listen';
+import { configCommand, handleConfigCommand } from './config';
+import { roomsCommand, handleRoomsCommand } from './rooms';
+import {
+  availabilityCommand,
+  handleAvailabilityButton,
+  handleAvailabilityCommand,
+  handleAvailabilityModal,
+  AVAILABILITY_BUTTON_PREFIX,
+  AVAILABILITY_MODAL_PREFIX,
+} from './availability';
+
+// All slash commands exposed by the bot
+const commands = [
+  scheduleCommand,
+  bookCommand,
+  emailCommand,
+  timezoneCommand,
+  availabilityCommand,
+  meetingCommand,
+  voiceCommand,
+  listenCommand,
+  configCommand,
+  roomsCommand,
+];
+
+/**
+ * Register slash commands with Discord. Commands are registered for a single
+ * guild when DISCORD_GUILD_ID is set (instant update), otherwise globally.
+ */
+export async function registerCommands(applicationId: string): Promise<void> {
+  const rest = new REST({ version: '10' }).setToken(
+    process.env.DISCORD_BOT_TOKEN as string
+  );
+  const body = commands.map((command) => command.toJSON());
+  const guildId = process.env.DISCORD_GUILD_ID;
+
+  try {
+    if (guildId) {
+      await rest.put(Routes.applicationGuildCommands(applicationId, guildId), { body });
+    } else {
+      await rest.put(Routes.applicationCommands(applicationId), { body });
+    }
+    console.log(`✅ Registered ${body.length} slash command(s)`);
+  } catch (error) {
+    console.error('❌ Failed to register slash commands:', error);
+  }
+}
+
+// Route an incoming interaction to its command, button or modal handler
+export async function handleInteraction(interaction: Interaction): Promise<void> {
+  try {
+    if (interaction.isChatInputCommand()) {
+      if (interaction.commandName === scheduleCommand.name) {
+        await handleScheduleCommand(interaction);
+      } else if (interaction.commandName === bookCommand.name) {
+        await handleBookCommand(interaction);
+      } else if (interaction.commandName === emailCommand.name) {
+        await handleEmailCommand(interaction);
+      } else if (interaction.commandName === timezoneCommand.name) {
+        await handleTimezoneCommand(interaction);
+      } else if (interaction.commandName === availabilityCommand.name) {
+        await handleAvailabilityCommand(interaction);
+      } else if (interaction.commandName === meetingCommand.name) {
+        await handleMeetingCommand(interaction);
+      } else if (interaction.commandName === voiceCommand.name) {
+        await handleVoiceCommand(interaction);
+      } else if (interaction.commandName === listenCommand.name) {
+        await handleListenCommand(interaction);
+      } else if (interaction.commandName === configCommand.name) {
+        await handleConfigCommand(interaction);
+      } else if (interaction.commandName === roomsCommand.name) {
+        await handleRoomsCommand(interaction);
+      }
+    } else if (interaction.isButton()) {
+      if (interaction.customId.startsWith(SCHEDULE_FIX_BUTTON_PREFIX)) {
+        await handleScheduleFixButton(interaction);
+      } else if (interaction.customId.startsWith(SUGGESTION_BUTTON_PREFIX)) {
+        await handleSuggestionButton(interaction);
+      } else if (interaction.customId.startsWith(AVAILABILITY_BUTTON_PREFIX)) {
+        await handleAvailabilityButton(interaction);
+      } else if (interaction.customId.startsWith(REMINDER_BUTTON_PREFIX)) {
+        await handleReminderButton(interaction);
+      }
+    } else if (interaction.isModalSubmit()) {
+      if (interaction.customId.startsWith(SCHEDULE_FIX_MODAL_PREFIX)) {
+        await handleScheduleFixModal(interaction);
+      } else if (interaction.customId.startsWith(AVAILABILITY_MODAL_PREFIX)) {
+        await handleAvailabilityModal(interaction);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling interaction:', error);
+    if (interaction.isRepliable()) {
+      await reportInteractionError(interaction).catch((replyError) =>
+        console.error('Error reporting interaction failure:', replyError)
+      );
+    }
+  }
+}
+
+// Tell the user something went wrong, whether or not the handler already answered
+async function reportInteractionError(interaction: RepliableInteraction): Promise<void> {
+  const content = '⚠️ Something went wrong. Please try again.';
+  if (interaction.deferred && !interaction.replied) {
+    await interaction.editReply(content);
+  } else if (interaction.replied) {
+    await interaction.followUp({ content, ephemeral: true });
+  } else {
+    await interaction.reply({ content, ephemeral: true });
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  ChatInputCommandInteraction,
+  GuildMember,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import {
+  getListeningMode,
+  getWakePhrase,
+  isListening,
+  ListeningMode,
+  LISTENING_MODES,
+  setListeningMode,
+  startListening,
+  stopListening,
+} from '../services/listening';
+import { getVoiceSessionManager } from '../services/voice-sessions';
+
+function describeMode(mode: ListeningMode): string {
+  switch (mode) {
+    case 'always':
+      return 'everything said in voice is handled';
+    case 'wake-phrase':
+      return `only speech starting with "${getWakePhrase()}" is handled`;
+    case 'command':
+      return 'the bot only listens between /listen start and /listen stop';
+  }
+}
+
+export const listenCommand = new SlashCommandBuilder()
+  .setName('listen')
+  .setDescription('Control when the bot listens in voice channels')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('start')
+      .setDescription('Join your voice channel and handle everything said until /listen stop')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('stop').setDescription('Stop handling everything said in voice')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('mode')
+      .setDescription('Choose the listening mode for this server')
+      .addStringOption((option) =>
+        option
+          .setName('mode')
+          .setDescription('When the bot should handle speech')
+          .setRequired(true)
+          .addChoices(...LISTENING_MODES.map((mode) => ({ name: mode, value: mode })))
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('status').setDescription('Show how the bot is listening in this server')
+  );
+
+function formatStatus(guildId: string): string {
+  const mode = getListeningMode(guildId);
+  return `👂 Listening mode: **${mode}** - ${describeMode(mode)}${
+    isListening(guildId) ? '\n🔴 /listen is active: everything said in voice is handled.' : ''
+  }`;
+}
+
+// Handle the /listen slash command
+export async function handleListenCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const guild = interaction.guild;
+
+  if (!guild) {
+    await interaction.reply({ content: '⚠️ Listening can only be controlled in a server.', ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'status') {
+    await interaction.reply({ content: formatStatus(guild.id), ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'mode') {
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        content: '🔒 You need the Manage Server permission to change the listening mode.',
+        ephemeral: true,
+      });
+      return;
+    }
+    setListeningMode(guild.id, interaction.options.getString('mode', true) as ListeningMode);
+    await interaction.reply(formatStatus(guild.id));
+    return;
+  }
+
+  const manager = getVoiceSessionManager();
+  if (subcommand === 'start') {
+    const member = interaction.member instanceof GuildMember ? interaction.member : undefined;
+    const channel = member?.voice.channel;
+    if (!channel || !manager) {
+      await interaction.reply({ content: '🎧 Join a voice channel first, then run /listen start.', ephemeral: true });
+      return;
+    }
+    startListening(guild.id);
+    manager.join(channel);
+    await interaction.reply(`🔴 Listening in **${channel.name}** until /listen stop.`);
+    return;
+  }
+
+  stopListening(guild.id);
+  // In command mode the bot has no reason to stay in the channel
+  if (getListeningMode(guild.id) === 'command') {
+    manager?.leave(guild.id, '/listen stop');
+  }
+  await interaction.reply(`⏹️ Stopped listening.\n${formatStatus(guild.id)}`);
+}
@@ -0,0 +1,85 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import {
+  BookedMeeting,
+  cancelMeeting,
+  formatBookingConfirmation,
+  meetingToIcs,
+  rescheduleMeeting,
+} from '../services/booking';
+import { resolveTimezone } from '../services/timezones';
+import { validateDateTime } from '../utils/validators';
+
+export const meetingCommand = new SlashCommandBuilder()
+  .setName('meeting')
+  .setDescription('Change a booked meeting')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('reschedule')
+      .setDescription('Move a meeting to a new start time')
+      .addStringOption((option) =>
+        option.setName('event_id').setDescription('Event ID from the booking confirmation').setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('start')
+          .setDescription('New start in your timezone, e.g. 2025-06-23 14:30')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('cancel')
+      .setDescription('Cancel a meeting and notify attendees')
+      .addStringOption((option) =>
+        option.setName('event_id').setDescription('Event ID from the booking confirmation').setRequired(true)
+      )
+  );
+
+/**
+ * Build a booking confirmation message with the meeting's .ics file attached
+ */
+export function buildMeetingMessage(meeting: BookedMeeting): {
+  content: string;
+  files: AttachmentBuilder[];
+} {
+  const { filename, content } = meetingToIcs(meeting);
+  return {
+    content: formatBookingConfirmation(meeting),
+    files: [new AttachmentBuilder(Buffer.from(content, 'utf8'), { name: filename })],
+  };
+}
+
+// Handle the /meeting slash command
+export async function handleMeetingCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const eventId = interaction.options.getString('event_id', true).trim();
+
+  let start: Date | undefined;
+  if (subcommand === 'reschedule') {
+    const timezone = resolveTimezone(interaction.user.id, interaction.guildId || undefined);
+    const result = validateDateTime(interaction.options.getString('start'), 'start time', timezone);
+    if (!result.ok) {
+      await interaction.reply({ content: `⚠️ ${result.error}`, ephemeral: true });
+      return;
+    }
+    if (result.value.getTime() <= Date.now()) {
+      await interaction.reply({ content: '⚠️ The new start time must be in the future.', ephemeral: true });
+      return;
+    }
+    start = result.value;
+  }
+
+  await interaction.deferReply();
+  try {
+    const meeting = start
+      ? await rescheduleMeeting(eventId, start, interaction.user.id)
+      : await cancelMeeting(eventId, interaction.user.id);
+    await interaction.editReply(buildMeetingMessage(meeting));
+  } catch (error) {
+    console.error(`Error during meeting ${subcommand}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.editReply(`⚠️ Could not ${subcommand} the meeting: ${message}`);
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+} from 'discord.js';
+import { BookedMeeting, getBookedMeeting } from '../services/booking';
+import {
+  recordReminderResponse,
+  reminderRecipients,
+  ReminderResponse,
+} from '../services/reminders';
+import { formatDiscordTimeSlot } from '../utils/parseHelpers';
+
+// Custom ID prefix for reminder buttons: reminder:<response>:<eventId>
+export const REMINDER_BUTTON_PREFIX = 'reminder:';
+
+/**
+ * Build a reminder for a meeting with Join / Running late / Can't make it buttons
+ */
+export function buildReminderMessage(
+  meeting: BookedMeeting,
+  responses: Record<string, ReminderResponse> = {}
+): { content: string; components: ActionRowBuilder<ButtonBuilder>[] } {
+  const { request } = meeting;
+  const start = Math.floor(request.slot.start.getTime() / 1000);
+  const lines = [
+    `⏰ **Reminder:** ${request.title} starts <t:${start}:R>`,
+    `🕒 ${formatDiscordTimeSlot(request.slot)}`,
+  ];
+  const declined = Object.keys(responses).filter((userId) => responses[userId] === 'declined');
+  if (declined.length > 0) {
+    lines.push(`❌ Can't make it: ${declined.map((userId) => `<@${userId}>`).join(', ')}`);
+  }
+
+  // Join opens the meeting link when there is a web one
+  const url = [meeting.conferenceLink, meeting.link].find((link) => link && /^https?:\/\//.test(link));
+  const join = url
+    ? new ButtonBuilder().setLabel('Join').setStyle(ButtonStyle.Link).setURL(url)
+    : new ButtonBuilder()
+        .setCustomId(`${REMINDER_BUTTON_PREFIX}joining:${meeting.eventId}`)
+        .setLabel('Join')
+        .setStyle(ButtonStyle.Success);
+
+  const buttons = [
+    join,
+    new ButtonBuilder()
+      .setCustomId(`${REMINDER_BUTTON_PREFIX}late:${meeting.eventId}`)
+      .setLabel('Running late')
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(`${REMINDER_BUTTON_PREFIX}declined:${meeting.eventId}`)
+      .setLabel("Can't make it")
+      .setStyle(ButtonStyle.Danger),
+  ];
+
+  return {
+    content: lines.join('\n'),
+    components: [new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)],
+  };
+}
+
+// Tell the organizer by DM how an attendee answered
+async function notifyOrganizer(
+  interaction: ButtonInteraction,
+  meeting: BookedMeeting,
+  message: string
+): Promise<void> {
+  if (meeting.organizerId === interaction.user.id) return;
+  try {
+    const organizer = await interaction.client.users.fetch(meeting.organizerId);
+    await organizer.send(message);
+  } catch (error) {
+    console.warn(`⚠️ Could not notify organizer ${meeting.organizerId}:`, error);
+  }
+}
+
+// Handle a click on one of the reminder buttons
+export async function handleReminderButton(interaction: ButtonInteraction): Promise<void> {
+  const [response, ...rest] = interaction.customId
+    .substring(REMINDER_BUTTON_PREFIX.length)
+    .split(':');
+  const eventId = rest.join(':');
+  const meeting = getBookedMeeting(eventId);
+
+  if (!meeting || meeting.status === 'cancelled') {
+    await interaction.reply({ content: '⚠️ This meeting was cancelled.', ephemeral: true });
+    return;
+  }
+  if (!reminderRecipients(meeting).includes(interaction.user.id)) {
+    await interaction.reply({
+      content: '⚠️ Only the attendees of this meeting can answer its reminder.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const changed = recordReminderResponse(meeting, interaction.user.id, response as ReminderResponse);
+  const user = `<@${interaction.user.id}>`;
+  const when = formatDiscordTimeSlot(meeting.request.slot);
+
+  switch (response as ReminderResponse) {
+    case 'joining':
+      await interaction.reply({ content: '✅ See you there!', ephemeral: true });
+      break;
+    case 'late':
+      await interaction.reply(`🐢 ${user} is running late.`);
+      if (changed) {
+        await notifyOrganizer(
+          interaction,
+          meeting,
+          `🐢 ${user} is running late for **${meeting.request.title}** (${when}).`
+        );
+      }
+      break;
+    case 'declined':
+      await interaction.reply(
+        meeting.organizerId === interaction.user.id
+          ? `❌ ${user} can't make it.`
+          : `❌ ${user} can't make it. <@${meeting.organizerId}> has been told.`
+      );
+      if (changed) {
+        await notifyOrganizer(
+          interaction,
+          meeting,
+          `❌ ${user} can't make it to **${meeting.request.title}** (${when}).`
+        );
+      }
+      break;
+  }
+}
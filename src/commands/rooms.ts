@@ -0,0 +1,109 @@
+import {
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { addRoom, listRooms, removeRoom, Room } from '../services/rooms';
+
+export const roomsCommand = new SlashCommandBuilder()
+  .setName('rooms')
+  .setDescription('Manage the meeting rooms /schedule can book')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('add')
+      .setDescription('Add a room, or update the room with the same name')
+      .addStringOption((option) =>
+        option.setName('name').setDescription('Room name').setRequired(true).setMaxLength(50)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('capacity')
+          .setDescription('How many people fit in the room')
+          .setRequired(true)
+          .setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option.setName('location').setDescription('Where the room is, e.g. "2nd floor"').setMaxLength(100)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('equipment')
+          .setDescription('Comma-separated equipment, e.g. "projector, whiteboard"')
+          .setMaxLength(200)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('list').setDescription('Show the rooms of this server')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('remove')
+      .setDescription('Remove a room')
+      .addStringOption((option) =>
+        option.setName('name').setDescription('Room name').setRequired(true)
+      )
+  );
+
+function formatRoom(room: Room): string {
+  const details = [`👥 ${room.capacity}`];
+  if (room.location) details.push(`📍 ${room.location}`);
+  if (room.equipment.length > 0) details.push(`🧰 ${room.equipment.join(', ')}`);
+  return `**${room.name}** · ${details.join(' · ')}`;
+}
+
+// Handle the /rooms slash command
+export async function handleRoomsCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const guildId = interaction.guildId;
+
+  if (!guildId) {
+    await interaction.reply({ content: '⚠️ Rooms can only be managed in a server.', ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'list') {
+    const rooms = listRooms(guildId);
+    await interaction.reply({
+      content: rooms.length
+        ? `🏢 **Meeting rooms**\n${rooms.map(formatRoom).join('\n')}`
+        : '🏢 No meeting rooms yet. Add one with /rooms add.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({
+      content: '🔒 You need the Manage Server permission to change the meeting rooms.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const name = interaction.options.getString('name', true);
+  if (subcommand === 'remove') {
+    const removed = removeRoom(guildId, name);
+    await interaction.reply(
+      removed
+        ? `🗑️ Removed room **${removed.name}**.`
+        : { content: `⚠️ There is no room called "${name}".`, ephemeral: true }
+    );
+    return;
+  }
+
+  try {
+    const room = addRoom(guildId, {
+      name,
+      capacity: interaction.options.getInteger('capacity', true),
+      location: interaction.options.getString('location')?.trim() || undefined,
+      equipment: (interaction.options.getString('equipment') || '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item),
+    });
+    await interaction.reply(`✅ Saved room ${formatRoom(room)}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.reply({ content: `⚠️ ${message}`, ephemeral: true });
+  }
+}
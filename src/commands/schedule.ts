@@ -0,0 +1,358 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  SlashCommandBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { getOptimalMeetingTimes } from '../services/gpt-text-completions';
+import { attendeeLabel } from '../services/attendees';
+import { createProposal, titleFromDetails } from '../services/booking';
+import { resolveTimezone } from '../services/timezones';
+import { ANY_ROOM, Room, selectRooms } from '../services/rooms';
+import { buildSuggestionMessage } from './suggestions';
+import { DateRange, parseDateRange } from '../utils/dateParser';
+import {
+  validateDuration,
+  validateAttendees,
+  validateText,
+  ValidationResult,
+} from '../utils/validators';
+
+// Custom ID prefixes used to route component and modal interactions back here
+export const SCHEDULE_FIX_BUTTON_PREFIX = 'schedule-fix:';
+export const SCHEDULE_FIX_MODAL_PREFIX = 'schedule-fix-modal:';
+
+type ScheduleField =
+  | 'attendees'
+  | 'optional_attendees'
+  | 'duration'
+  | 'from'
+  | 'to'
+  | 'preferred_time'
+  | 'room'
+  | 'details';
+
+// Raw values entered by the user, keyed by field
+type ScheduleDraft = Record<ScheduleField, string>;
+
+const FIELD_LABELS: Record<ScheduleField, string> = {
+  attendees: 'Attendees',
+  optional_attendees: 'Optional attendees',
+  duration: 'Meeting duration',
+  from: 'When',
+  to: 'Until',
+  preferred_time: 'Preferred time',
+  room: 'Meeting room',
+  details: 'Meeting details',
+};
+
+// Validation order - invalid fields are re-prompted one by one in this order
+const FIELD_ORDER: ScheduleField[] = [
+  'attendees',
+  'optional_attendees',
+  'duration',
+  'from',
+  'to',
+  'preferred_time',
+  'room',
+  'details',
+];
+
+// Drafts waiting for the user to fix an invalid field
+const pendingDrafts: Map<string, ScheduleDraft> = new Map();
+
+export const scheduleCommand = new SlashCommandBuilder()
+  .setName('schedule')
+  .setDescription('Find optimal meeting times for a group of attendees')
+  .addStringOption((option) =>
+    option
+      .setName('attendees')
+      .setDescription('Required attendees - emails and/or @mentions')
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName('duration')
+      .setDescription('Meeting duration (e.g. 30m, 1h, 1h30m)')
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName('from')
+      .setDescription('When (e.g. "next Monday", "Tue-Thu next week", "tomorrow afternoon")')
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName('to')
+      .setDescription('End of the range, if not given in "from" (e.g. "end of month")')
+  )
+  .addStringOption((option) =>
+    option
+      .setName('preferred_time')
+      .setDescription('Preferred time (e.g. "afternoon", "before 11am")')
+  )
+  .addStringOption((option) =>
+    option
+      .setName('room')
+      .setDescription(`Meeting room from /rooms list, or "${ANY_ROOM}" to pick a free room that fits`)
+  )
+  .addStringOption((option) =>
+    option.setName('details').setDescription('Meeting details or agenda')
+  )
+  .addStringOption((option) =>
+    option
+      .setName('optional_attendees')
+      .setDescription('Optional attendees - emails and/or @mentions')
+  );
+
+// Combine "from" and the optional "to" into one date range
+function validateRange(draft: ScheduleDraft, timezone: string): ValidationResult<DateRange> {
+  const from = parseDateRange(draft.from, timezone);
+  if (!from.ok || !draft.to.trim()) return from;
+
+  const to = parseDateRange(draft.to, timezone);
+  if (!to.ok) return to;
+  if (to.value.end.getTime() <= from.value.start.getTime()) {
+    return { ok: false, error: 'The end of the range must not be before its start.' };
+  }
+  return {
+    ok: true,
+    value: {
+      start: from.value.start,
+      end: to.value.end,
+      timeOfDay: from.value.timeOfDay || to.value.timeOfDay,
+    },
+  };
+}
+
+// Registered rooms that can hold everyone on the draft
+function validateRoom(draft: ScheduleDraft, guildId: string | undefined): ValidationResult<Room[]> {
+  const text = validateText(draft.room, 'room name', 100);
+  if (!text.ok) return text;
+  const required = validateAttendees(draft.attendees, false);
+  const optional = validateAttendees(draft.optional_attendees, true);
+  const attendeeCount =
+    (required.ok ? required.value.length : 0) + (optional.ok ? optional.value.length : 0);
+  return selectRooms(guildId, text.value, attendeeCount);
+}
+
+// Validate a single field of the draft
+function validateField(
+  field: ScheduleField,
+  draft: ScheduleDraft,
+  timezone: string,
+  guildId: string | undefined
+): ValidationResult<unknown> {
+  switch (field) {
+    case 'attendees':
+      return validateAttendees(draft.attendees, false);
+    case 'optional_attendees':
+      return validateAttendees(draft.optional_attendees, true);
+    case 'duration':
+      return validateDuration(draft.duration);
+    case 'from':
+      return parseDateRange(draft.from, timezone);
+    case 'to':
+      return draft.to.trim() ? validateRange(draft, timezone) : { ok: true, value: null };
+    case 'preferred_time':
+      return validateText(draft.preferred_time, 'preferred time', 200);
+    case 'room':
+      return validateRoom(draft, guildId);
+    case 'details':
+      return validateText(draft.details, 'meeting details', 1000);
+  }
+}
+
+// Find the first invalid field of the draft, if any
+function findInvalidField(
+  draft: ScheduleDraft,
+  timezone: string,
+  guildId: string | undefined
+): { field: ScheduleField; error: string } | null {
+  for (const field of FIELD_ORDER) {
+    const result = validateField(field, draft, timezone, guildId);
+    if (!result.ok) {
+      return { field, error: result.error };
+    }
+  }
+  return null;
+}
+
+// Build the ephemeral prompt asking the user to fix one field
+function buildFixPrompt(field: ScheduleField, error: string) {
+  const button = new ButtonBuilder()
+    .setCustomId(`${SCHEDULE_FIX_BUTTON_PREFIX}${field}`)
+    .setLabel(`Fix ${FIELD_LABELS[field].toLowerCase()}`)
+    .setStyle(ButtonStyle.Primary);
+
+  return {
+    content: `⚠️ **${FIELD_LABELS[field]}:** ${error}`,
+    components: [new ActionRowBuilder<ButtonBuilder>().addComponents(button)],
+    ephemeral: true,
+  };
+}
+
+// Run the scheduler once every field of the draft is valid
+async function runSchedule(
+  interaction: ChatInputCommandInteraction | ModalSubmitInteraction,
+  draft: ScheduleDraft
+): Promise<void> {
+  pendingDrafts.delete(interaction.user.id);
+
+  const required = validateAttendees(draft.attendees, false);
+  const optional = validateAttendees(draft.optional_attendees, true);
+  const attendees = [
+    ...(required.ok ? required.value : []),
+    ...(optional.ok ? optional.value : []),
+  ];
+
+  await interaction.reply(
+    `⏳ Finding optimal times for ${attendees.map((attendee) => attendeeLabel(attendee)).join(', ')}...`
+  );
+
+  try {
+    const timezone = resolveTimezone(interaction.user.id, interaction.guildId || undefined);
+    const duration = validateDuration(draft.duration);
+    const range = validateRange(draft, timezone);
+    if (!range.ok) {
+      throw new Error(range.error);
+    }
+    const rooms = validateRoom(draft, interaction.guildId || undefined);
+    if (!rooms.ok) {
+      throw new Error(rooms.error);
+    }
+    const { slots, explanation, conflicts, unresolved, search } = await getOptimalMeetingTimes(
+      attendees,
+      duration.ok ? duration.value : 30,
+      draft.details,
+      range.value,
+      draft.preferred_time,
+      rooms.value,
+      timezone
+    );
+
+    const unresolvedNote = unresolved.length
+      ? `\n\n❔ No calendar linked for ${unresolved.join(', ')} - they can run /myemail to link one or upload a schedule image.`
+      : '';
+
+    if (slots.length > 0) {
+      const proposal = createProposal({
+        ownerId: interaction.user.id,
+        guildId: interaction.guildId || undefined,
+        source: 'command',
+        title: titleFromDetails(draft.details),
+        details: draft.details,
+        attendees,
+        slots,
+        search,
+      });
+      const message = buildSuggestionMessage(
+        proposal,
+        `✅ Here are ${slots.length} suggested time slots:`
+      );
+      await interaction.editReply({
+        ...message,
+        content: `${message.content}${explanation ? `\n\n💡 ${explanation}` : ''}${unresolvedNote}`,
+      });
+    } else if (conflicts.length > 0) {
+      await interaction.editReply(
+        `⚠️ No slot fits all required attendees. Conflicts with: ${conflicts.join(', ')}${unresolvedNote}`
+      );
+    } else {
+      await interaction.editReply(`⚠️ Could not find available slots.${unresolvedNote}`);
+    }
+  } catch (error) {
+    console.error('Error finding meeting times:', error);
+    await interaction.editReply('⚠️ An error occurred while finding meeting times. Please try again.');
+  }
+}
+
+// Validate the draft and either re-prompt the next invalid field or schedule
+async function continueSchedule(
+  interaction: ChatInputCommandInteraction | ModalSubmitInteraction,
+  draft: ScheduleDraft
+): Promise<void> {
+  const guildId = interaction.guildId || undefined;
+  const invalid = findInvalidField(draft, resolveTimezone(interaction.user.id, guildId), guildId);
+  if (invalid) {
+    pendingDrafts.set(interaction.user.id, draft);
+    await interaction.reply(buildFixPrompt(invalid.field, invalid.error));
+    return;
+  }
+
+  await runSchedule(interaction, draft);
+}
+
+// Handle the /schedule slash command
+export async function handleScheduleCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const draft = {} as ScheduleDraft;
+  for (const field of FIELD_ORDER) {
+    draft[field] = interaction.options.getString(field) || '';
+  }
+
+  await continueSchedule(interaction, draft);
+}
+
+// Handle the "Fix ..." button by opening a modal for that single field
+export async function handleScheduleFixButton(
+  interaction: ButtonInteraction
+): Promise<void> {
+  const field = interaction.customId.substring(
+    SCHEDULE_FIX_BUTTON_PREFIX.length
+  ) as ScheduleField;
+  const draft = pendingDrafts.get(interaction.user.id);
+
+  if (!draft) {
+    await interaction.reply({
+      content: '⌛ This scheduling request has expired. Please run /schedule again.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const input = new TextInputBuilder()
+    .setCustomId(field)
+    .setLabel(FIELD_LABELS[field])
+    .setStyle(field === 'details' ? TextInputStyle.Paragraph : TextInputStyle.Short)
+    .setRequired(['attendees', 'duration', 'from'].includes(field));
+  if (draft[field]) {
+    input.setValue(draft[field]);
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${SCHEDULE_FIX_MODAL_PREFIX}${field}`)
+    .setTitle('Update meeting request')
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+
+  await interaction.showModal(modal);
+}
+
+// Handle the single-field modal submission and continue validation
+export async function handleScheduleFixModal(
+  interaction: ModalSubmitInteraction
+): Promise<void> {
+  const field = interaction.customId.substring(
+    SCHEDULE_FIX_MODAL_PREFIX.length
+  ) as ScheduleField;
+  const draft = pendingDrafts.get(interaction.user.id);
+
+  if (!draft) {
+    await interaction.reply({
+      content: '⌛ This scheduling request has expired. Please run /schedule again.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  draft[field] = interaction.fields.getTextInputValue(field);
+  await continueSchedule(interaction, draft);
+}
@@ -0,0 +1,188 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+} from 'discord.js';
+import {
+  bookProposalOption,
+  closeProposal,
+  getProposal,
+  MeetingProposalDraft,
+  showMoreOptions,
+} from '../services/booking';
+import { advanceDialog, isDialogParticipant } from '../services/dialog';
+import { archiveSessionThread, continueConversation, meetingChannelId } from '../services/whisper';
+import { formatDiscordTimeSlot } from '../utils/parseHelpers';
+import { buildMeetingMessage } from './meeting';
+
+// Custom ID prefix for suggestion buttons: suggestion:<action>:<proposalId>[:<option>]
+export const SUGGESTION_BUTTON_PREFIX = 'suggestion:';
+
+// Discord allows at most 5 buttons per row
+const MAX_SLOT_BUTTONS = 5;
+
+// Build the numbered slot list for a proposal
+function formatProposalSlots(proposal: MeetingProposalDraft): string {
+  return proposal.slots
+    .map((slot, index) => `${index + 1}. ${formatDiscordTimeSlot(slot)}`)
+    .join('\n');
+}
+
+/**
+ * Build a message showing a proposal's slots with Book / More options / Cancel buttons
+ */
+export function buildSuggestionMessage(
+  proposal: MeetingProposalDraft,
+  intro?: string
+): { content: string; components: ActionRowBuilder<ButtonBuilder>[] } {
+  const slotButtons = proposal.slots.slice(0, MAX_SLOT_BUTTONS).map((slot, index) =>
+    new ButtonBuilder()
+      .setCustomId(`${SUGGESTION_BUTTON_PREFIX}book:${proposal.id}:${index + 1}`)
+      .setLabel(`Book #${index + 1}`)
+      .setStyle(ButtonStyle.Success)
+  );
+
+  const controlButtons = [
+    new ButtonBuilder()
+      .setCustomId(`${SUGGESTION_BUTTON_PREFIX}more:${proposal.id}`)
+      .setLabel('More options')
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(`${SUGGESTION_BUTTON_PREFIX}cancel:${proposal.id}`)
+      .setLabel('Cancel')
+      .setStyle(ButtonStyle.Danger),
+  ];
+
+  const components = [new ActionRowBuilder<ButtonBuilder>().addComponents(controlButtons)];
+  if (slotButtons.length > 0) {
+    components.unshift(new ActionRowBuilder<ButtonBuilder>().addComponents(slotButtons));
+  }
+
+  const header = intro || `📅 **${proposal.title}** - pick a time:`;
+  const slots = proposal.slots.length > 0 ? formatProposalSlots(proposal) : '⚠️ No more free slots in this range.';
+  return { content: `${header}\n${slots}`, components };
+}
+
+// Book the chosen slot and replace the buttons with the confirmation
+async function handleBook(
+  interaction: ButtonInteraction,
+  proposal: MeetingProposalDraft,
+  option: number
+): Promise<void> {
+  await interaction.update({
+    content: `${interaction.message.content}\n\n⏳ Booking option ${option}...`,
+    components: [],
+  });
+
+  try {
+    const meeting = await bookProposalOption(
+      proposal.id,
+      option,
+      interaction.user.id,
+      meetingChannelId(interaction.guildId || undefined, interaction.channelId)
+    );
+    const turn =
+      proposal.source === 'conversation'
+        ? await advanceDialog(proposal.sessionId || proposal.ownerId, { kind: 'booked', meeting })
+        : undefined;
+    await interaction.editReply({ ...buildMeetingMessage(meeting), components: [] });
+    // Archive last: messages in an archived thread cannot be edited
+    await archiveSessionThread(interaction.guildId || undefined, turn?.dialog.threadId);
+  } catch (error) {
+    console.error('Error booking meeting:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    // The proposal is reopened on failure, so offer the buttons again
+    const retry = buildSuggestionMessage(proposal);
+    await interaction.editReply({
+      ...retry,
+      content: `${retry.content}\n\n⚠️ Could not book the meeting: ${message}`,
+    });
+  }
+}
+
+// Show the next set of slots, or ask the conversation for new ones
+async function handleMore(
+  interaction: ButtonInteraction,
+  proposal: MeetingProposalDraft
+): Promise<void> {
+  if (proposal.source === 'conversation') {
+    closeProposal(proposal.id);
+    await interaction.update({
+      content: `${interaction.message.content}\n\n🔄 Looking for other options...`,
+      components: [],
+    });
+    await continueConversation(
+      proposal.sessionId || proposal.ownerId,
+      { kind: 'more' },
+      interaction.guildId || undefined,
+      interaction.channelId
+    );
+    return;
+  }
+
+  const updated = showMoreOptions(proposal.id);
+  if (!updated) {
+    await interaction.reply({ content: '⚠️ No more options are available.', ephemeral: true });
+    return;
+  }
+  await interaction.update(buildSuggestionMessage(updated));
+}
+
+// Close the proposal and remove the buttons
+async function handleCancel(
+  interaction: ButtonInteraction,
+  proposal: MeetingProposalDraft
+): Promise<void> {
+  closeProposal(proposal.id);
+  const turn =
+    proposal.source === 'conversation'
+      ? await advanceDialog(proposal.sessionId || proposal.ownerId, { kind: 'cancel' })
+      : undefined;
+  await interaction.update({
+    content: `${interaction.message.content}\n\n❌ Cancelled by <@${interaction.user.id}>.`,
+    components: [],
+  });
+  await archiveSessionThread(interaction.guildId || undefined, turn?.dialog.threadId);
+}
+
+// Handle a click on one of the suggestion buttons
+export async function handleSuggestionButton(
+  interaction: ButtonInteraction
+): Promise<void> {
+  const [action, proposalId, option] = interaction.customId
+    .substring(SUGGESTION_BUTTON_PREFIX.length)
+    .split(':');
+  const proposal = getProposal(proposalId);
+
+  if (!proposal) {
+    await interaction.update({
+      content: `${interaction.message.content}\n\n⌛ These suggestions are no longer available.`,
+      components: [],
+    });
+    return;
+  }
+
+  // Everyone who spoke in a shared session may pick for the group
+  const isParticipant =
+    proposal.sessionId !== undefined && isDialogParticipant(proposal.sessionId, interaction.user.id);
+  if (interaction.user.id !== proposal.ownerId && !isParticipant) {
+    await interaction.reply({
+      content: `🔒 Only <@${proposal.ownerId}> can act on these suggestions.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  switch (action) {
+    case 'book':
+      await handleBook(interaction, proposal, parseInt(option, 10));
+      break;
+    case 'more':
+      await handleMore(interaction, proposal);
+      break;
+    case 'cancel':
+      await handleCancel(interaction, proposal);
+      break;
+  }
+}
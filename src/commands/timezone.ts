@@ -0,0 +1,80 @@
+import {
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import {
+  getGuildTimezone,
+  getUserTimezone,
+  resolveTimezone,
+  setGuildTimezone,
+  setUserTimezone,
+} from '../services/timezones';
+
+export const timezoneCommand = new SlashCommandBuilder()
+  .setName('timezone')
+  .setDescription('Manage the timezone used for scheduling')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('set')
+      .setDescription('Set your own timezone')
+      .addStringOption((option) =>
+        option
+          .setName('zone')
+          .setDescription('IANA timezone, e.g. Europe/Berlin or Asia/Bangkok')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('guild')
+      .setDescription('Set the default timezone for this server')
+      .addStringOption((option) =>
+        option
+          .setName('zone')
+          .setDescription('IANA timezone, e.g. Europe/Berlin or Asia/Bangkok')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('show').setDescription('Show the timezone used for you')
+  );
+
+// Handle the /timezone slash command
+export async function handleTimezoneCommand(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const guildId = interaction.guildId || undefined;
+
+  try {
+    if (subcommand === 'set') {
+      const zone = interaction.options.getString('zone', true).trim();
+      setUserTimezone(interaction.user.id, zone);
+      await interaction.reply({ content: `🌍 Your timezone is now **${zone}**.`, ephemeral: true });
+    } else if (subcommand === 'guild') {
+      if (!guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+        await interaction.reply({
+          content: '🔒 You need the Manage Server permission to change the server timezone.',
+          ephemeral: true,
+        });
+        return;
+      }
+      const zone = interaction.options.getString('zone', true).trim();
+      setGuildTimezone(guildId, zone);
+      await interaction.reply(`🌍 Default timezone for this server is now **${zone}**.`);
+    } else {
+      const userZone = getUserTimezone(interaction.user.id);
+      const guildZone = guildId ? getGuildTimezone(guildId) : undefined;
+      await interaction.reply({
+        content: `🌍 Using **${resolveTimezone(interaction.user.id, guildId)}**\nYours: ${
+          userZone || 'not set'
+        } · Server default: ${guildZone || 'not set'}`,
+        ephemeral: true,
+      });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.reply({ content: `⚠️ ${message}`, ephemeral: true });
+  }
+}
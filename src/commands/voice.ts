@@ -0,0 +1,93 @@
+import {
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import {
+  getGuildVoiceSettings,
+  getTtsProvider,
+  MAX_SPEECH_SPEED,
+  MIN_SPEECH_SPEED,
+  resetGuildVoiceSettings,
+  setGuildVoiceSettings,
+  VoiceSettings,
+} from '../services/tts';
+
+export const voiceCommand = new SlashCommandBuilder()
+  .setName('voice')
+  .setDescription('Choose how the bot speaks in voice channels')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('set')
+      .setDescription('Change the voice for this server')
+      .addStringOption((option) =>
+        option
+          .setName('voice')
+          .setDescription('Voice name for the speech engine, e.g. alloy, nova or en_US-lessac-medium')
+          .setMaxLength(100)
+      )
+      .addNumberOption((option) =>
+        option
+          .setName('speed')
+          .setDescription('Speaking speed, 1 is normal')
+          .setMinValue(MIN_SPEECH_SPEED)
+          .setMaxValue(MAX_SPEECH_SPEED)
+      )
+      .addStringOption((option) =>
+        option.setName('language').setDescription('Language code, e.g. en, de or pt-br').setMaxLength(10)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('show').setDescription('Show the voice used in this server')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('reset').setDescription('Go back to the default voice')
+  );
+
+function formatVoiceSettings(settings: VoiceSettings): string {
+  return `🗣️ Engine: **${getTtsProvider().name}**\nVoice: ${settings.voice || 'default'} · Speed: ${
+    settings.speed ?? 1
+  } · Language: ${settings.language || 'auto'}`;
+}
+
+// Handle the /voice slash command
+export async function handleVoiceCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const guildId = interaction.guildId;
+
+  if (!guildId) {
+    await interaction.reply({ content: '⚠️ Voice settings can only be changed in a server.', ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'show') {
+    await interaction.reply({ content: formatVoiceSettings(getGuildVoiceSettings(guildId)), ephemeral: true });
+    return;
+  }
+
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({
+      content: '🔒 You need the Manage Server permission to change the voice.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    if (subcommand === 'reset') {
+      resetGuildVoiceSettings(guildId);
+      await interaction.reply(`🗣️ Back to the default voice.\n${formatVoiceSettings({})}`);
+      return;
+    }
+
+    const settings = setGuildVoiceSettings(guildId, {
+      voice: interaction.options.getString('voice')?.trim() || undefined,
+      speed: interaction.options.getNumber('speed') ?? undefined,
+      language: interaction.options.getString('language')?.trim().toLowerCase() || undefined,
+    });
+    await interaction.reply(formatVoiceSettings(settings));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.reply({ content: `⚠️ ${message}`, ephemeral: true });
+  }
+}
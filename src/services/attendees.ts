@@ -0,0 +1,75 @@
+import { createPersistentMap } from './storage';
+import { EMAIL_PATTERN } from '../utils/validators';
+
+// A meeting invitee, identified by calendar email and/or Discord user
+export interface Attendee {
+  email?: string;
+  discordId?: string;
+  optional: boolean;
+}
+
+// Discord user ID -> calendar email, set with /myemail
+const linkedEmails = createPersistentMap<string>('linked-emails');
+
+const MENTION_PATTERN = /^<@!?(\d+)>$/;
+
+/**
+ * Link a Discord user to the calendar email used for availability lookups
+ */
+export function linkUserEmail(discordId: string, email: string): void {
+  linkedEmails.set(discordId, email);
+  console.log(`📧 Linked ${discordId} to ${email}`);
+}
+
+/**
+ * Get the calendar email linked to a Discord user
+ */
+export function getLinkedEmail(discordId: string): string | undefined {
+  return linkedEmails.get(discordId);
+}
+
+/**
+ * Split a list of emails and Discord @mentions ("a@x.com, <@123> b@y.com")
+ * into attendees. Tokens that are neither are returned as invalid.
+ */
+export function parseAttendees(
+  input: string,
+  optional = false
+): { attendees: Attendee[]; invalid: string[] } {
+  const attendees: Attendee[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  // Separate adjacent mentions such as "<@1><@2>" before splitting
+  const tokens = input
+    .replace(/></g, '> <')
+    .split(/[\s,;]+/)
+    .map((token) => token.trim())
+    .filter((token) => token);
+
+  for (const token of tokens) {
+    const mention = token.match(MENTION_PATTERN);
+    if (mention) {
+      if (seen.has(mention[1])) continue;
+      seen.add(mention[1]);
+      attendees.push({ discordId: mention[1], email: getLinkedEmail(mention[1]), optional });
+    } else if (EMAIL_PATTERN.test(token)) {
+      const email = token.toLowerCase();
+      if (seen.has(email)) continue;
+      seen.add(email);
+      attendees.push({ email, optional });
+    } else {
+      invalid.push(token);
+    }
+  }
+
+  return { attendees, invalid };
+}
+
+/**
+ * Human-readable label for an attendee - a Discord mention when known, else the email
+ */
+export function attendeeLabel(attendee: Attendee): string {
+  if (attendee.discordId) return `<@${attendee.discordId}>`;
+  return attendee.email || 'unknown attendee';
+}
@@ -0,0 +1,442 @@
+import { createPersistentMap } from './storage';
+import { Interval, mergeIntervals, subtractIntervals } from '../utils/intervals';
+import { getZonedParts, isValidTimezone, parseTimeOfDay, zonedTimeToUtc } from '../utils/timezone';
+
+export type AvailabilityStatus = 'busy' | 'free';
+
+// A block that repeats every week, e.g. Monday 09:00-12:00 busy
+export interface AvailabilityBlock {
+  day: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+  status: AvailabilityStatus;
+  label?: string;
+  confidence: number; // 0..1
+}
+
+// A one-off change on a specific date; without times it covers the whole day
+export interface AvailabilityException {
+  date: string; // YYYY-MM-DD
+  start?: string;
+  end?: string;
+  status: AvailabilityStatus;
+  label?: string;
+  confidence: number;
+}
+
+// Everything known about when a user can meet
+export interface UserAvailability {
+  timezone: string;
+  recurring: AvailabilityBlock[];
+  exceptions: AvailabilityException[];
+  source: 'image' | 'ics' | 'manual';
+  updatedAt: Date;
+}
+
+// Uploaded schedules are kept for two weeks
+const AVAILABILITY_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Parsed availability per Discord user ID
+const userAvailability = createPersistentMap<UserAvailability>('availability', {
+  ttlMs: AVAILABILITY_TTL_MS,
+});
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Keep the rendered table well inside Discord's 2000 character limit
+const MAX_TABLE_EXCEPTIONS = 25;
+
+const BLOCK_PROPERTIES = {
+  start: { type: 'string', description: 'HH:mm, 24-hour clock' },
+  end: { type: 'string', description: 'HH:mm, 24-hour clock' },
+  status: { type: 'string', enum: ['busy', 'free'] },
+  label: { type: ['string', 'null'] },
+  confidence: { type: 'number', description: 'Between 0 and 1' },
+};
+
+/**
+ * JSON schema the vision model must follow when reading a schedule image
+ */
+export const AVAILABILITY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    recurring: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          day: { type: 'integer', description: '0 = Sunday ... 6 = Saturday' },
+          ...BLOCK_PROPERTIES,
+        },
+        required: ['day', 'start', 'end', 'status', 'label', 'confidence'],
+        additionalProperties: false,
+      },
+    },
+    exceptions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+          ...BLOCK_PROPERTIES,
+          start: { type: ['string', 'null'], description: 'HH:mm, null for the whole day' },
+          end: { type: ['string', 'null'], description: 'HH:mm, null for the whole day' },
+        },
+        required: ['date', 'start', 'end', 'status', 'label', 'confidence'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['recurring', 'exceptions'],
+  additionalProperties: false,
+};
+
+function clampConfidence(value: unknown): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? 0.5 : Math.min(1, Math.max(0, number));
+}
+
+function normalizeStatus(value: unknown): AvailabilityStatus | null {
+  return value === 'busy' || value === 'free' ? value : null;
+}
+
+function normalizeLabel(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().substring(0, 100) : undefined;
+}
+
+// An HH:mm window if it is well-formed and ordered
+function validWindow(start: unknown, end: unknown): { start: string; end: string } | null {
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  return startMinutes !== null && endMinutes !== null && endMinutes > startMinutes
+    ? { start, end }
+    : null;
+}
+
+// The fields of a loosely-shaped object, or none when it is not an object
+function fieldsOf(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function listOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Validate loosely-shaped availability (e.g. from a model) and return the
+ * usable blocks plus a warning for every block that was dropped
+ */
+export function validateAvailability(
+  raw: unknown,
+  timezone: string,
+  source: UserAvailability['source']
+): { availability: UserAvailability; warnings: string[] } {
+  const warnings: string[] = [];
+  const recurring: AvailabilityBlock[] = [];
+  const exceptions: AvailabilityException[] = [];
+  const input = fieldsOf(raw);
+
+  for (const item of listOf(input.recurring)) {
+    const block = fieldsOf(item);
+    const day = Number(block.day);
+    const status = normalizeStatus(block.status);
+    const window = validWindow(block.start, block.end);
+    if (!Number.isInteger(day) || day < 0 || day > 6 || !status || !window) {
+      warnings.push(`Skipped invalid weekly block: ${JSON.stringify(item)}`);
+      continue;
+    }
+    recurring.push({
+      day,
+      ...window,
+      status,
+      label: normalizeLabel(block.label),
+      confidence: clampConfidence(block.confidence),
+    });
+  }
+
+  for (const item of listOf(input.exceptions)) {
+    const exception = fieldsOf(item);
+    const status = normalizeStatus(exception.status);
+    const hasTimes = !!(exception.start || exception.end);
+    const window = hasTimes ? validWindow(exception.start, exception.end) : null;
+    if (
+      typeof exception.date !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(exception.date) ||
+      !status ||
+      (hasTimes && !window)
+    ) {
+      warnings.push(`Skipped invalid dated block: ${JSON.stringify(item)}`);
+      continue;
+    }
+    exceptions.push({
+      date: exception.date,
+      start: window?.start,
+      end: window?.end,
+      status,
+      label: normalizeLabel(exception.label),
+      confidence: clampConfidence(exception.confidence),
+    });
+  }
+
+  recurring.sort((a, b) => a.day - b.day || a.start.localeCompare(b.start));
+  exceptions.sort((a, b) => a.date.localeCompare(b.date) || (a.start || '').localeCompare(b.start || ''));
+
+  return {
+    availability: {
+      timezone: isValidTimezone(timezone) ? timezone : 'UTC',
+      recurring,
+      exceptions,
+      source,
+      updatedAt: new Date(),
+    },
+    warnings,
+  };
+}
+
+// Interval for an HH:mm window on a calendar date in the availability's timezone
+function windowOnDate(
+  year: number,
+  month: number,
+  day: number,
+  start: string,
+  end: string,
+  timezone: string
+): Interval {
+  const startMinutes = parseTimeOfDay(start) as number;
+  const endMinutes = parseTimeOfDay(end) as number;
+  return {
+    start: zonedTimeToUtc(year, month, day, Math.floor(startMinutes / 60), startMinutes % 60, timezone),
+    end: zonedTimeToUtc(year, month, day, Math.floor(endMinutes / 60), endMinutes % 60, timezone),
+  };
+}
+
+/**
+ * Expand availability into busy intervals over a date range. Weekly free
+ * blocks mark the rest of that weekday as busy; dated free exceptions clear
+ * busy time on that date.
+ */
+export function availabilityToBusyIntervals(
+  availability: UserAvailability,
+  rangeStart: Date,
+  rangeEnd: Date
+): Interval[] {
+  const { timezone } = availability;
+  const busy: Interval[] = [];
+  const first = getZonedParts(rangeStart, timezone);
+
+  for (let offset = 0; ; offset++) {
+    const dayStart = zonedTimeToUtc(first.year, first.month, first.day + offset, 0, 0, timezone);
+    if (dayStart.getTime() >= rangeEnd.getTime()) break;
+    const dayEnd = zonedTimeToUtc(first.year, first.month, first.day + offset + 1, 0, 0, timezone);
+    const parts = getZonedParts(dayStart, timezone);
+    const dateKey = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+    const whole = { start: dayStart, end: dayEnd };
+
+    const toInterval = (block: { start?: string; end?: string }) =>
+      block.start && block.end
+        ? windowOnDate(parts.year, parts.month, parts.day, block.start, block.end, timezone)
+        : whole;
+
+    let dayBusy: Interval[] = [];
+    const weekly = availability.recurring.filter((block) => block.day === parts.weekday);
+    dayBusy.push(...weekly.filter((block) => block.status === 'busy').map(toInterval));
+
+    const weeklyFree = weekly.filter((block) => block.status === 'free').map(toInterval);
+    if (weeklyFree.length > 0) {
+      dayBusy.push(...subtractIntervals(whole, weeklyFree));
+    }
+
+    const dated = availability.exceptions.filter((exception) => exception.date === dateKey);
+    dayBusy.push(...dated.filter((exception) => exception.status === 'busy').map(toInterval));
+
+    const datedFree = dated.filter((exception) => exception.status === 'free').map(toInterval);
+    for (const free of datedFree) {
+      dayBusy = mergeIntervals(dayBusy).flatMap((interval) => subtractIntervals(interval, [free]));
+    }
+
+    busy.push(...dayBusy);
+  }
+
+  return mergeIntervals(busy).filter(
+    (interval) => interval.end.getTime() > rangeStart.getTime() && interval.start.getTime() < rangeEnd.getTime()
+  );
+}
+
+// Format minutes after midnight as HH:mm
+function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Store absolute busy intervals (e.g. from an .ics file) as dated busy blocks,
+ * split at midnight in the given timezone
+ */
+export function availabilityFromBusyIntervals(
+  busy: Interval[],
+  timezone: string,
+  source: UserAvailability['source']
+): UserAvailability {
+  const exceptions: AvailabilityException[] = [];
+
+  for (const interval of mergeIntervals(busy)) {
+    let cursor = interval.start;
+    while (cursor.getTime() < interval.end.getTime()) {
+      const parts = getZonedParts(cursor, timezone);
+      const dayStart = zonedTimeToUtc(parts.year, parts.month, parts.day, 0, 0, timezone);
+      const dayEnd = zonedTimeToUtc(parts.year, parts.month, parts.day + 1, 0, 0, timezone);
+      const segmentEnd = interval.end.getTime() < dayEnd.getTime() ? interval.end : dayEnd;
+      const date = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+
+      if (cursor.getTime() === dayStart.getTime() && segmentEnd.getTime() === dayEnd.getTime()) {
+        exceptions.push({ date, status: 'busy', confidence: 1 });
+      } else {
+        const endParts = getZonedParts(segmentEnd, timezone);
+        const endMinutes = segmentEnd.getTime() === dayEnd.getTime() ? 24 * 60 : endParts.hour * 60 + endParts.minute;
+        const startMinutes = parts.hour * 60 + parts.minute;
+        if (endMinutes > startMinutes) {
+          exceptions.push({
+            date,
+            start: formatTimeOfDay(startMinutes),
+            end: formatTimeOfDay(endMinutes),
+            status: 'busy',
+            confidence: 1,
+          });
+        }
+      }
+      cursor = segmentEnd;
+    }
+  }
+
+  return { timezone, recurring: [], exceptions, source, updatedAt: new Date() };
+}
+
+function formatBlockTimes(block: { start?: string; end?: string }): string {
+  return block.start && block.end ? `${block.start}-${block.end}` : 'all day';
+}
+
+function formatConfidence(confidence: number): string {
+  return confidence < 0.6 ? ` (unsure ${Math.round(confidence * 100)}%)` : '';
+}
+
+/**
+ * Render availability as a fixed-width table for Discord
+ */
+export function formatAvailabilityTable(availability: UserAvailability): string {
+  const rows: string[] = [];
+  for (let day = 1; day <= 7; day++) {
+    const weekday = day % 7; // Monday first
+    const blocks = availability.recurring.filter((block) => block.day === weekday);
+    const busy = blocks
+      .filter((block) => block.status === 'busy')
+      .map((block) => `${formatBlockTimes(block)}${formatConfidence(block.confidence)}`);
+    const free = blocks
+      .filter((block) => block.status === 'free')
+      .map((block) => `${formatBlockTimes(block)}${formatConfidence(block.confidence)}`);
+    rows.push(
+      `${DAY_NAMES[weekday].padEnd(4)}| ${(busy.join(', ') || '-').padEnd(28)}| ${free.join(', ') || '-'}`
+    );
+  }
+
+  // Imported calendars only have dated blocks, so skip the empty weekly grid
+  const lines =
+    availability.recurring.length > 0
+      ? ['Day | Busy                        | Free', '----+-----------------------------+-----------', ...rows]
+      : [];
+  if (availability.exceptions.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push('Dated changes:');
+    for (const exception of availability.exceptions.slice(0, MAX_TABLE_EXCEPTIONS)) {
+      lines.push(
+        `${exception.date} ${formatBlockTimes(exception)} ${exception.status}${
+          exception.label ? ` (${exception.label})` : ''
+        }${formatConfidence(exception.confidence)}`
+      );
+    }
+    if (availability.exceptions.length > MAX_TABLE_EXCEPTIONS) {
+      lines.push(`...and ${availability.exceptions.length - MAX_TABLE_EXCEPTIONS} more`);
+    }
+  }
+
+  if (lines.length === 0) {
+    lines.push('No busy time recorded');
+  }
+
+  return `\`\`\`\n${lines.join('\n')}\n\`\`\`\n🌍 ${availability.timezone}`;
+}
+
+/**
+ * Serialize availability as editable lines, e.g. "Mon 09:00-12:00 busy Standup"
+ * or "2025-06-23 all day free"
+ */
+export function serializeAvailability(availability: UserAvailability): string {
+  const lines = availability.recurring.map(
+    (block) =>
+      `${DAY_NAMES[block.day]} ${block.start}-${block.end} ${block.status}${block.label ? ` ${block.label}` : ''}`
+  );
+  lines.push(
+    ...availability.exceptions.map(
+      (exception) =>
+        `${exception.date} ${formatBlockTimes(exception)} ${exception.status}${
+          exception.label ? ` ${exception.label}` : ''
+        }`
+    )
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Parse lines written by `serializeAvailability` (possibly edited by the user).
+ * Corrected blocks get full confidence.
+ */
+export function parseAvailabilityText(
+  text: string,
+  timezone: string
+): { availability: UserAvailability; warnings: string[] } {
+  const raw: { recurring: unknown[]; exceptions: unknown[] } = { recurring: [], exceptions: [] };
+  const warnings: string[] = [];
+  const linePattern =
+    /^(\w{3}|\d{4}-\d{2}-\d{2})\s+(?:(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})|all day)\s+(busy|free)(?:\s+(.+))?$/i;
+
+  for (const line of text.split('\n').map((value) => value.trim()).filter((value) => value)) {
+    const match = line.match(linePattern);
+    if (!match) {
+      warnings.push(`Could not read line: "${line}"`);
+      continue;
+    }
+    const [, when, start, end, status, label] = match;
+    const dayIndex = DAY_NAMES.findIndex((name) => name.toLowerCase() === when.toLowerCase());
+    const block = { start, end, status: status.toLowerCase(), label, confidence: 1 };
+
+    if (dayIndex !== -1 && start) {
+      raw.recurring.push({ ...block, day: dayIndex });
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(when)) {
+      raw.exceptions.push({ ...block, date: when });
+    } else {
+      warnings.push(`Could not read line: "${line}"`);
+    }
+  }
+
+  const validated = validateAvailability(raw, timezone, 'manual');
+  return { availability: validated.availability, warnings: [...warnings, ...validated.warnings] };
+}
+
+// Function to get a user's availability
+export function getUserAvailability(userId: string): UserAvailability | undefined {
+  return userAvailability.get(userId);
+}
+
+// Function to store a user's availability
+export function setUserAvailability(userId: string, availability: UserAvailability): void {
+  userAvailability.set(userId, availability);
+  console.log(
+    `📅 Stored availability for ${userId}: ${availability.recurring.length} weekly blocks, ${availability.exceptions.length} dated changes`
+  );
+}
+
+// Function to remove a user's availability
+export function clearUserAvailability(userId: string): void {
+  userAvailability.delete(userId);
+}
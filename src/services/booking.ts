@@ -0,0 +1,344 @@
+import { Attendee, attendeeLabel, getLinkedEmail } from './attendees';
+import { getCalendarProvider, MeetingRequest } from './calendar';
+import { findMoreSlots, SlotSearch } from './scheduler';
+import { formatDiscordTimeSlot, formatTimeSlot, TimeSlot } from '../utils/parseHelpers';
+import { createPersistentMap } from './storage';
+import { findRoom, releaseRoom, reserveRoom, roomLocation } from './rooms';
+import { buildIcsInvite } from '../utils/ics';
+import { randomUUID } from 'crypto';
+
+// Slots offered to a user that can still be booked
+export interface MeetingProposalDraft {
+  id: string;
+  ownerId: string; // Discord user who asked for the suggestions
+  sessionId?: string; // Scheduling conversation the suggestions came from
+  guildId?: string; // Guild whose rooms the slots were matched against
+  source: 'command' | 'conversation';
+  title: string;
+  details: string;
+  attendees: Attendee[];
+  slots: TimeSlot[];
+  offered: TimeSlot[]; // Every slot shown so far, including earlier pages
+  search?: SlotSearch; // Present for /schedule proposals, used for "More options"
+}
+
+// A meeting that was created on the calendar
+export interface BookedMeeting {
+  eventId: string;
+  provider: string;
+  link?: string;
+  conferenceLink?: string;
+  organizerId: string;
+  guildId?: string;
+  channelId?: string; // Where the meeting was booked; channel reminders are posted here
+  request: MeetingRequest;
+  bookedAt: Date;
+  uid: string; // iCalendar UID, stable across reschedules
+  sequence: number; // iCalendar SEQUENCE, bumped on every update
+  status: 'confirmed' | 'cancelled';
+}
+
+const DEFAULT_MEETING_TITLE = 'Meeting';
+
+// Domain part of generated iCalendar UIDs
+const ICS_UID_DOMAIN = 'discord-scheduler-assistant';
+
+// Suggestions can be booked for a day after they were shown
+const PROPOSAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Open proposals keyed by proposal ID
+const proposals = createPersistentMap<MeetingProposalDraft>('proposals', {
+  ttlMs: PROPOSAL_TTL_MS,
+});
+
+// Latest proposal ID shown to each user, keyed by Discord user ID
+const latestUserProposals = createPersistentMap<string>('latest-proposals', {
+  ttlMs: PROPOSAL_TTL_MS,
+});
+
+// Booked meetings keyed by calendar event ID
+const bookedMeetings = createPersistentMap<BookedMeeting>('bookings');
+
+/**
+ * Derive a short meeting title from free-text details
+ */
+export function titleFromDetails(details: string): string {
+  const firstLine = details.trim().split('\n')[0];
+  if (!firstLine) return DEFAULT_MEETING_TITLE;
+  return firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine;
+}
+
+/**
+ * Store a new proposal and make it the user's latest one
+ */
+export function createProposal(
+  draft: Omit<MeetingProposalDraft, 'id' | 'offered'>
+): MeetingProposalDraft {
+  const proposal: MeetingProposalDraft = {
+    ...draft,
+    id: randomUUID().substring(0, 8),
+    offered: [...draft.slots],
+  };
+  proposals.set(proposal.id, proposal);
+  latestUserProposals.set(proposal.ownerId, proposal.id);
+  return proposal;
+}
+
+// Function to get a proposal by ID
+export function getProposal(proposalId: string): MeetingProposalDraft | undefined {
+  return proposals.get(proposalId);
+}
+
+// Function to get the latest proposal shown to a user
+export function getUserProposal(userId: string): MeetingProposalDraft | undefined {
+  const proposalId = latestUserProposals.get(userId);
+  return proposalId ? proposals.get(proposalId) : undefined;
+}
+
+// Function to close a proposal so it can no longer be booked
+export function closeProposal(proposalId: string): void {
+  const proposal = proposals.get(proposalId);
+  if (!proposal) return;
+  proposals.delete(proposalId);
+  if (latestUserProposals.get(proposal.ownerId) === proposalId) {
+    latestUserProposals.delete(proposal.ownerId);
+  }
+}
+
+/**
+ * Replace the proposal's slots with the next best ones that were not shown yet
+ */
+export function showMoreOptions(proposalId: string): MeetingProposalDraft | undefined {
+  const proposal = proposals.get(proposalId);
+  if (!proposal?.search) return undefined;
+
+  proposal.slots = findMoreSlots(proposal.search, proposal.offered);
+  proposal.offered.push(...proposal.slots);
+  proposals.set(proposal.id, proposal);
+  return proposal;
+}
+
+/**
+ * Create the calendar event for a confirmed slot. A registered room is held
+ * before the event is created so two bookings can never claim it at once.
+ */
+export async function bookMeeting(
+  organizerId: string,
+  request: MeetingRequest,
+  origin: Pick<BookedMeeting, 'guildId' | 'channelId'> = {}
+): Promise<BookedMeeting> {
+  const provider = getCalendarProvider();
+  const uid = `${randomUUID()}@${ICS_UID_DOMAIN}`;
+  if (request.roomId) reserveRoom(request.roomId, request.slot, uid);
+
+  let event;
+  try {
+    event = await provider.createEvent(request);
+  } catch (error) {
+    if (request.roomId) releaseRoom(request.roomId, uid);
+    throw error;
+  }
+
+  const meeting: BookedMeeting = {
+    eventId: event.id,
+    provider: provider.name,
+    link: event.link,
+    conferenceLink: event.conferenceLink,
+    organizerId,
+    ...origin,
+    request,
+    bookedAt: new Date(),
+    uid,
+    sequence: 0,
+    status: 'confirmed',
+  };
+  bookedMeetings.set(meeting.eventId, meeting);
+
+  console.log(`📆 Booked ${meeting.eventId} for ${organizerId}: ${formatTimeSlot(request.slot)}`);
+  return meeting;
+}
+
+/**
+ * Book one of the slots of a proposal (1-based option)
+ */
+export async function bookProposalOption(
+  proposalId: string,
+  option: number,
+  organizerId: string,
+  channelId?: string
+): Promise<BookedMeeting> {
+  const proposal = proposals.get(proposalId);
+  if (!proposal) {
+    throw new Error('These meeting suggestions are no longer available. Run /schedule again.');
+  }
+
+  const slot = proposal.slots[option - 1];
+  if (!slot) {
+    throw new Error(`Option ${option} does not exist. Pick 1-${proposal.slots.length}.`);
+  }
+
+  // Close first so a double click cannot book the same proposal twice
+  closeProposal(proposalId);
+  const room = slot.room ? findRoom(proposal.guildId, slot.room) : undefined;
+  try {
+    return await bookMeeting(
+      organizerId,
+      {
+        title: proposal.title,
+        description: proposal.details || undefined,
+        slot,
+        attendees: proposal.attendees,
+        room: room ? roomLocation(room) : slot.room,
+        roomId: room?.id,
+        conference: true,
+      },
+      { guildId: proposal.guildId, channelId }
+    );
+  } catch (error) {
+    proposals.set(proposal.id, proposal);
+    throw error;
+  }
+}
+
+// Function to get a booked meeting by its calendar event ID
+export function getBookedMeeting(eventId: string): BookedMeeting | undefined {
+  return bookedMeetings.get(eventId);
+}
+
+// Function to list every booked meeting, including cancelled ones
+export function listBookedMeetings(): BookedMeeting[] {
+  return bookedMeetings.values();
+}
+
+// Look up a meeting the user organizes that can still be changed
+function getChangeableMeeting(eventId: string, userId: string): BookedMeeting {
+  const meeting = bookedMeetings.get(eventId);
+  if (!meeting) {
+    throw new Error(`No booked meeting with ID ${eventId}.`);
+  }
+  if (meeting.organizerId !== userId) {
+    throw new Error(`Only <@${meeting.organizerId}> can change this meeting.`);
+  }
+  if (meeting.status === 'cancelled') {
+    throw new Error('This meeting was already cancelled.');
+  }
+  return meeting;
+}
+
+/**
+ * Move a booked meeting to a new start time, keeping its duration
+ */
+export async function rescheduleMeeting(
+  eventId: string,
+  start: Date,
+  userId: string
+): Promise<BookedMeeting> {
+  const meeting = getChangeableMeeting(eventId, userId);
+  const durationMs = meeting.request.slot.end.getTime() - meeting.request.slot.start.getTime();
+  const request: MeetingRequest = {
+    ...meeting.request,
+    slot: { ...meeting.request.slot, start, end: new Date(start.getTime() + durationMs) },
+  };
+
+  if (request.roomId) reserveRoom(request.roomId, request.slot, meeting.uid);
+  let event;
+  try {
+    event = await getCalendarProvider().updateEvent(eventId, request);
+  } catch (error) {
+    if (request.roomId) reserveRoom(request.roomId, meeting.request.slot, meeting.uid);
+    throw error;
+  }
+  const updated: BookedMeeting = {
+    ...meeting,
+    request,
+    link: event.link || meeting.link,
+    conferenceLink: event.conferenceLink || meeting.conferenceLink,
+    sequence: meeting.sequence + 1,
+  };
+  bookedMeetings.set(eventId, updated);
+
+  console.log(`📆 Rescheduled ${eventId}: ${formatTimeSlot(request.slot)}`);
+  return updated;
+}
+
+/**
+ * Cancel a booked meeting. The record is kept so a cancellation .ics can be sent.
+ */
+export async function cancelMeeting(eventId: string, userId: string): Promise<BookedMeeting> {
+  const meeting = getChangeableMeeting(eventId, userId);
+  await getCalendarProvider().cancelEvent(eventId);
+  if (meeting.request.roomId) releaseRoom(meeting.request.roomId, meeting.uid);
+
+  const cancelled: BookedMeeting = {
+    ...meeting,
+    sequence: meeting.sequence + 1,
+    status: 'cancelled',
+  };
+  bookedMeetings.set(eventId, cancelled);
+
+  console.log(`📆 Cancelled ${eventId}`);
+  return cancelled;
+}
+
+/**
+ * Build the .ics invitation for a meeting: METHOD:REQUEST while it is on,
+ * METHOD:CANCEL once cancelled
+ */
+export function meetingToIcs(meeting: BookedMeeting): { filename: string; content: string } {
+  const { request } = meeting;
+  const description = [request.description, meeting.conferenceLink && `Join: ${meeting.conferenceLink}`]
+    .filter((line) => line)
+    .join('\n\n');
+
+  const content = buildIcsInvite({
+    uid: meeting.uid,
+    sequence: meeting.sequence,
+    method: meeting.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+    title: request.title,
+    description: description || undefined,
+    location: request.room,
+    url: meeting.conferenceLink || meeting.link,
+    start: request.slot.start,
+    end: request.slot.end,
+    // ICS_ORGANIZER_EMAIL is used when the organizer has not linked an email
+    organizer: {
+      email:
+        getLinkedEmail(meeting.organizerId) || process.env.ICS_ORGANIZER_EMAIL || 'scheduler@localhost',
+    },
+    attendees: request.attendees
+      .filter((attendee) => attendee.email)
+      .map((attendee) => ({ email: attendee.email as string, optional: attendee.optional })),
+  });
+
+  const suffix = meeting.status === 'cancelled' ? '-cancelled' : '';
+  return { filename: `meeting-${meeting.eventId}${suffix}.ics`, content };
+}
+
+/**
+ * Format a booking confirmation for Discord
+ */
+export function formatBookingConfirmation(meeting: BookedMeeting): string {
+  const heading =
+    meeting.status === 'cancelled'
+      ? '❌ **Cancelled:**'
+      : meeting.sequence > 0
+      ? '🔁 **Rescheduled:**'
+      : '📆 **Booked:**';
+  const lines = [
+    `${heading} ${meeting.request.title}`,
+    `🕒 ${formatDiscordTimeSlot(meeting.request.slot)}`,
+  ];
+  if (meeting.request.attendees.length > 0) {
+    lines.push(
+      `👥 ${meeting.request.attendees.map((attendee) => attendeeLabel(attendee)).join(', ')}`
+    );
+  }
+  if (meeting.conferenceLink) lines.push(`🎥 ${meeting.conferenceLink}`);
+  if (meeting.link) lines.push(`🔗 ${meeting.link}`);
+  lines.push(
+    meeting.status === 'cancelled'
+      ? `🆔 Event ID: \`${meeting.eventId}\``
+      : `🆔 Event ID: \`${meeting.eventId}\` - change it with /meeting reschedule or /meeting cancel`
+  );
+  return lines.join('\n');
+}
@@ -1,33 +1,298 @@
-import axios from 'axios';
+import { google } from 'googleapis';
+import { randomUUID } from 'crypto';
+import { Attendee } from './attendees';
+import { Interval, overlaps } from '../utils/intervals';
+import { TimeSlot } from '../utils/parseHelpers';
+
+// Everything needed to put a confirmed meeting on the calendar
+export interface MeetingRequest {
+  title: string;
+  description?: string;
+  slot: TimeSlot;
+  attendees: Attendee[];
+  room?: string; // Shown as the event location
+  roomId?: string; // Registered room held for the meeting, see /rooms
+  conference?: boolean; // Attach a video conference link when the provider supports it
+}
+
+// A meeting created by a calendar provider
+export interface CalendarEvent {
+  id: string;
+  link?: string;
+  conferenceLink?: string;
+  request: MeetingRequest;
+}
+
+// Backend that can read availability and create events
+export interface CalendarProvider {
+  name: string;
+  getBusyIntervals(
+    emails: string[],
+    timeMin: Date,
+    timeMax: Date,
+    timezone: string
+  ): Promise<Record<string, Interval[]>>;
+  createEvent(request: MeetingRequest): Promise<CalendarEvent>;
+  updateEvent(eventId: string, request: MeetingRequest): Promise<CalendarEvent>;
+  cancelEvent(eventId: string): Promise<void>;
+}
+
+/**
+ * Calendar provider backed by the Google Calendar API.
+ * Credentials are read from GOOGLE_APPLICATION_CREDENTIALS and events are
+ * created on GOOGLE_CALENDAR_ID (defaults to the primary calendar).
+ */
+export function createGoogleCalendarProvider(): CalendarProvider {
+  const auth = new google.auth.GoogleAuth({
+    scopes: ['https://www.googleapis.com/auth/calendar'],
+  });
+  const calendar = google.calendar({ version: 'v3', auth });
+  const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+  return {
+    name: 'google',
+
+    async getBusyIntervals(emails, timeMin, timeMax, timezone) {
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin: timeMin.toISOString(),
+          timeMax: timeMax.toISOString(),
+          timeZone: timezone,
+          items: emails.map((email) => ({ id: email })),
+        },
+      });
+
+      const busyByEmail: Record<string, Interval[]> = {};
+      for (const email of emails) {
+        const entry = response.data.calendars?.[email];
+        if (entry?.errors?.length) {
+          console.warn(`⚠️ FreeBusy errors for ${email}:`, entry.errors);
+        }
+        busyByEmail[email] = (entry?.busy || [])
+          .filter((period) => period.start && period.end)
+          .map((period) => ({
+            start: new Date(period.start as string),
+            end: new Date(period.end as string),
+          }));
+      }
+
+      return busyByEmail;
+    },
+
+    async createEvent(request) {
+      const response = await calendar.events.insert({
+        calendarId,
+        sendUpdates: 'all',
+        conferenceDataVersion: request.conference ? 1 : 0,
+        requestBody: {
+          ...toGoogleEvent(request),
+          conferenceData: request.conference
+            ? {
+                createRequest: {
+                  requestId: randomUUID(),
+                  conferenceSolutionKey: { type: 'hangoutsMeet' },
+                },
+              }
+            : undefined,
+        },
+      });
+
+      const event = response.data;
+      if (!event.id) {
+        throw new Error('Google Calendar did not return an event ID');
+      }
+
+      return {
+        id: event.id,
+        link: event.htmlLink || undefined,
+        conferenceLink: event.hangoutLink || undefined,
+        request,
+      };
+    },
+
+    async updateEvent(eventId, request) {
+      const response = await calendar.events.patch({
+        calendarId,
+        eventId,
+        sendUpdates: 'all',
+        requestBody: toGoogleEvent(request),
+      });
+
+      return {
+        id: eventId,
+        link: response.data.htmlLink || undefined,
+        conferenceLink: response.data.hangoutLink || undefined,
+        request,
+      };
+    },
+
+    async cancelEvent(eventId) {
+      await calendar.events.delete({ calendarId, eventId, sendUpdates: 'all' });
+    },
+  };
+}
+
+// Google Calendar fields shared by event creation and updates
+function toGoogleEvent(request: MeetingRequest) {
+  return {
+    summary: request.title,
+    description: request.description,
+    location: request.room,
+    start: {
+      dateTime: request.slot.start.toISOString(),
+      timeZone: request.slot.timezone,
+    },
+    end: {
+      dateTime: request.slot.end.toISOString(),
+      timeZone: request.slot.timezone,
+    },
+    attendees: request.attendees
+      .filter((attendee) => attendee.email)
+      .map((attendee) => ({
+        email: attendee.email,
+        optional: attendee.optional,
+      })),
+  };
+}
 
 /**
- * Query Google Calendar FreeBusy API for given email and time range
+ * In-memory calendar provider for offline runs and tests. Busy intervals are
+ * seeded with `addBusy` and grow as events are created.
  */
-export async function getFreeBusy(
-  question: string,
-  timezone: string
-): Promise<any> {
-  try {
-    const response = await fetch('http://localhost:8000/calendar/ai-query', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        question: question.trim(),
-        timezone,
-      }),
-    });
-
-    const data = await response.json();
-
-    if (response.ok) {
-      console.log('AI analysis completed!', 'success');
-      return data;
-    } else {
-      throw new Error(data.error || 'Failed to get AI analysis');
+export function createInMemoryCalendarProvider(): CalendarProvider & {
+  addBusy(email: string, interval: Interval): void;
+  listEvents(): CalendarEvent[];
+} {
+  const busy: Map<string, Interval[]> = new Map();
+  const events: CalendarEvent[] = [];
+
+  const addBusy = (email: string, interval: Interval) => {
+    busy.set(email, [...(busy.get(email) || []), interval]);
+  };
+
+  // Add or remove the event's slot from every attendee's busy list
+  const blockAttendees = (request: MeetingRequest) => {
+    for (const attendee of request.attendees) {
+      if (attendee.email) {
+        addBusy(attendee.email, { start: request.slot.start, end: request.slot.end });
+      }
     }
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    console.error(`Error: ${errorMessage}`, 'danger');
+  };
+  const releaseAttendees = (request: MeetingRequest) => {
+    for (const attendee of request.attendees) {
+      if (attendee.email) {
+        busy.set(
+          attendee.email,
+          (busy.get(attendee.email) || []).filter(
+            (interval) =>
+              interval.start.getTime() !== request.slot.start.getTime() ||
+              interval.end.getTime() !== request.slot.end.getTime()
+          )
+        );
+      }
+    }
+  };
+  const findEvent = (eventId: string) => {
+    const index = events.findIndex((event) => event.id === eventId);
+    if (index === -1) {
+      throw new Error(`Event ${eventId} does not exist`);
+    }
+    return index;
+  };
+
+  return {
+    name: 'memory',
+    addBusy,
+
+    listEvents() {
+      return [...events];
+    },
+
+    async getBusyIntervals(emails, timeMin, timeMax) {
+      const range = { start: timeMin, end: timeMax };
+      const busyByEmail: Record<string, Interval[]> = {};
+      for (const email of emails) {
+        busyByEmail[email] = (busy.get(email) || []).filter((interval) =>
+          overlaps(interval, range)
+        );
+      }
+      return busyByEmail;
+    },
+
+    async createEvent(request) {
+      const id = `mem-${randomUUID()}`;
+      const event: CalendarEvent = {
+        id,
+        link: `memory://events/${id}`,
+        conferenceLink: request.conference ? `memory://conference/${id}` : undefined,
+        request,
+      };
+      events.push(event);
+      blockAttendees(request);
+      return event;
+    },
+
+    async updateEvent(eventId, request) {
+      const index = findEvent(eventId);
+      releaseAttendees(events[index].request);
+      events[index] = { ...events[index], request };
+      blockAttendees(request);
+      return events[index];
+    },
+
+    async cancelEvent(eventId) {
+      const index = findEvent(eventId);
+      releaseAttendees(events[index].request);
+      events.splice(index, 1);
+    },
+  };
+}
+
+/**
+ * Provider for running without a calendar integration. It knows no busy time
+ * and only hands out event IDs; attendees get the meeting from the .ics
+ * attachment instead.
+ */
+export function createIcsOnlyCalendarProvider(): CalendarProvider {
+  return {
+    name: 'ics',
+
+    async getBusyIntervals(emails) {
+      return Object.fromEntries(emails.map((email) => [email, [] as Interval[]]));
+    },
+
+    async createEvent(request) {
+      return { id: `ics-${randomUUID().substring(0, 8)}`, request };
+    },
+
+    async updateEvent(eventId, request) {
+      return { id: eventId, request };
+    },
+
+    async cancelEvent() {},
+  };
+}
+
+let calendarProvider: CalendarProvider | null = null;
+
+/**
+ * Get the configured calendar provider (CALENDAR_PROVIDER=google|memory|ics, default google)
+ */
+export function getCalendarProvider(): CalendarProvider {
+  if (!calendarProvider) {
+    const name = process.env.CALENDAR_PROVIDER;
+    calendarProvider =
+      name === 'memory'
+        ? createInMemoryCalendarProvider()
+        : name === 'ics'
+        ? createIcsOnlyCalendarProvider()
+        : createGoogleCalendarProvider();
+    console.log(`📆 Using ${calendarProvider.name} calendar provider`);
   }
+  return calendarProvider;
+}
+
+// Function to replace the calendar provider (e.g. with an in-memory one)
+export function setCalendarProvider(provider: CalendarProvider): void {
+  calendarProvider = provider;
 }
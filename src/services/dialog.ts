@@ -0,0 +1,596 @@
+import { Attendee, getLinkedEmail, parseAttendees } from './attendees';
+import { BookedMeeting, bookMeeting, closeProposal, createProposal, titleFromDetails } from './booking';
+import { getMeetingTimesByVoice, SCHEDULE_REQUIRED_MESSAGE } from './gpt-voice-completions';
+import { ANY_ROOM, findRoom, listRooms, roomLocation, selectRooms } from './rooms';
+import { createPersistentMap } from './storage';
+import { resolveTimezone } from './timezones';
+import { DateRange, findDateRangeInText, findDurationInText } from '../utils/dateParser';
+import { formatTimeSlot, TimeSlot } from '../utils/parseHelpers';
+import { getZonedParts } from '../utils/timezone';
+
+// Where a scheduling conversation stands:
+// collecting - asking for attendees, duration, days and the user's schedule
+// proposing - options were offered, waiting for a pick
+// confirming - one option was picked, waiting for yes / no
+// booked, cancelled - finished; the next input starts a new conversation
+//
+// A session belongs to one user (its ID is the user ID) or, in voice, to the
+// whole channel (see groupSessionId) so everyone in a call plans one meeting.
+export type DialogState = 'collecting' | 'proposing' | 'confirming' | 'booked' | 'cancelled';
+
+// What the user told the bot so far
+export interface DialogSlots {
+  attendees?: Attendee[]; // Other invitees; empty when the user meets alone
+  guests?: string[]; // Names that did not match a server member
+  durationMinutes?: number;
+  range?: DateRange;
+}
+
+// Someone taking part in a session, with the name the others know them by
+export interface Speaker {
+  id: string;
+  name: string;
+}
+
+// One thing said or typed in a session
+export interface DialogLine {
+  speakerId: string;
+  speaker: string; // Display name at the time
+  text: string;
+}
+
+export interface SchedulingDialog {
+  state: DialogState;
+  organizerId: string; // Who started the session; books the meeting
+  participants: Record<string, string>; // Display name per user ID of everyone who spoke
+  slots: DialogSlots;
+  options: TimeSlot[]; // Options currently on offer
+  offered: TimeSlot[]; // Every option offered so far, so "more" finds new ones
+  choice?: TimeSlot; // Option waiting for confirmation
+  proposalId?: string; // Proposal behind the option buttons
+  transcript: DialogLine[]; // Oldest first
+  eventId?: string;
+  threadId?: string; // Discord thread the session is discussed in
+}
+
+// Anything that moves a conversation along: speech, typed text, uploads and buttons
+export type DialogInput =
+  | { kind: 'voice' | 'text'; text: string; speaker: Speaker }
+  | { kind: 'schedule'; source: 'image' | 'ics'; speaker: Speaker }
+  | { kind: 'more' }
+  | { kind: 'booked'; meeting: BookedMeeting }
+  | { kind: 'cancel' };
+
+export interface DialogContext {
+  guildId?: string;
+  channelId?: string; // Channel the conversation started in; booked meetings are reminded there
+  // Look up a server member by spoken or typed name
+  findMember?(name: string): string | undefined;
+}
+
+// The outcome of one input
+export interface DialogTurn {
+  dialog: SchedulingDialog;
+  previousState: DialogState;
+  reply: string; // What the bot says back, in text and speech
+  meeting?: BookedMeeting; // Set when this turn booked the meeting
+}
+
+export const DIALOG_STATE_LABELS: Record<DialogState, string> = {
+  collecting: '📝 Collecting details',
+  proposing: '📅 Proposing times',
+  confirming: '❓ Waiting for confirmation',
+  booked: '✅ Booked',
+  cancelled: '❌ Cancelled',
+};
+
+// Conversations are dropped after a day without activity
+const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Scheduling conversation per session ID
+const dialogs = createPersistentMap<SchedulingDialog>('conversations', {
+  ttlMs: CONVERSATION_TTL_MS,
+});
+
+const CANCEL_PATTERN = /\b(cancel|never ?mind|forget (?:it|about it)|stop scheduling)\b/i;
+const MORE_PATTERN = /\b(more options|other (?:options|times)|different times?|none of (?:these|those|them)|something else)\b/i;
+const YES_PATTERN = /\b(yes|yeah|yep|sure|confirm|book it|go ahead|sounds good|perfect|ok(?:ay)?)\b/i;
+const NO_PATTERN = /\b(no|nope|not that|wrong one)\b/i;
+// "not", "don't" or "never" up to two words before a keyword turns it around ("not sure", "don't cancel")
+const NEGATION_PATTERN = /\b(?:not|don[’']?t|do not|never|can[’']?t)(?:\s+[\w’']+){0,2}\s*$/i;
+const ALONE_PATTERN = /\b(just me|only me|by myself|myself|alone|no one else|nobody else)\b/i;
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  one: 1,
+  second: 2,
+  two: 2,
+  third: 3,
+  three: 3,
+  fourth: 4,
+  four: 4,
+  fifth: 5,
+  five: 5,
+};
+
+// Session ID of the shared conversation in a voice channel
+export function groupSessionId(channelId: string): string {
+  return `channel:${channelId}`;
+}
+
+function newDialog(organizer?: Speaker): SchedulingDialog {
+  return {
+    state: 'collecting',
+    organizerId: organizer?.id || '',
+    participants: organizer ? { [organizer.id]: organizer.name } : {},
+    slots: {},
+    options: [],
+    offered: [],
+    transcript: [],
+  };
+}
+
+// Session discussed in each thread, keyed by thread ID
+const dialogThreads = createPersistentMap<string>('dialog-threads', {
+  ttlMs: CONVERSATION_TTL_MS,
+});
+
+// Inputs of a session are handled one at a time, as several people may talk at once
+const sessionQueues: Map<string, Promise<unknown>> = new Map();
+
+// Function to get a session's current scheduling conversation
+export function getDialog(sessionId: string): SchedulingDialog | undefined {
+  return dialogs.get(sessionId);
+}
+
+// Function to check whether a user spoke in a session (and may use its buttons)
+export function isDialogParticipant(sessionId: string, userId: string): boolean {
+  return !!dialogs.get(sessionId)?.participants[userId];
+}
+
+// Function to find which session a thread belongs to
+export function getThreadSession(threadId: string): string | undefined {
+  return dialogThreads.get(threadId);
+}
+
+// Function to link a session to the thread it is discussed in, starting one if needed
+export function attachDialogThread(sessionId: string, threadId: string): void {
+  const dialog = dialogs.get(sessionId) || newDialog();
+  if (dialog.threadId) dialogThreads.delete(dialog.threadId);
+  dialog.threadId = threadId;
+  dialogs.set(sessionId, dialog);
+  dialogThreads.set(threadId, sessionId);
+}
+
+// Function to drop a session's conversation; returns it so its thread can be closed
+export function resetDialog(sessionId: string): SchedulingDialog | undefined {
+  const dialog = dialogs.get(sessionId);
+  if (dialog) endConversationSession(sessionId, dialog);
+  return dialog;
+}
+
+// Function to end a conversation once it was booked, cancelled or reset
+function endConversationSession(sessionId: string, dialog: SchedulingDialog): void {
+  if (dialog.proposalId) closeProposal(dialog.proposalId);
+  if (dialog.threadId) dialogThreads.delete(dialog.threadId);
+  dialogs.delete(sessionId);
+  console.log(`🏁 Session ${sessionId} ended: ${dialog.state}`);
+}
+
+// The conversation as the model sees it, each line tagged with who said it
+function formatTranscript(dialog: SchedulingDialog): string {
+  return dialog.transcript
+    .map((line) => (line.speaker ? `${line.speaker}: ${line.text}` : line.text))
+    .join('\n');
+}
+
+// Meeting title taken from the first request
+function dialogTitle(dialog: SchedulingDialog): string {
+  return titleFromDetails(dialog.transcript[0]?.text || '');
+}
+
+// Everyone who spoke, organizer first
+function speakers(dialog: SchedulingDialog): Speaker[] {
+  const ids = [dialog.organizerId, ...Object.keys(dialog.participants)].filter(
+    (id, index, all) => id && dialog.participants[id] && all.indexOf(id) === index
+  );
+  return ids.map((id) => ({ id, name: dialog.participants[id] }));
+}
+
+// Join names as "Anna", "Anna and Bob" or "Anna, Bob and Carol"
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+// Pull invitees out of mentions, emails, "just me" and "with <Name>"
+function extractAttendees(
+  text: string,
+  timezone: string,
+  context: DialogContext
+): { attendees: Attendee[]; guests: string[] } | undefined {
+  const { attendees } = parseAttendees(text.replace(/[.!?]+(\s|$)/g, '$1'));
+  const guests: string[] = [];
+
+  const withNames = text.match(/\bwith ((?:[A-Z][\w'-]*)(?:(?:,\s*|,?\s+and\s+|\s+)[A-Z][\w'-]*)*)/);
+  if (withNames) {
+    for (const name of withNames[1].split(/,\s*|\s+and\s+/)) {
+      // "with Monday" is a date, not a person
+      if (findDateRangeInText(name, timezone).range) continue;
+      const discordId = context.findMember?.(name);
+      if (discordId) {
+        attendees.push({ discordId, email: getLinkedEmail(discordId), optional: false });
+      } else {
+        guests.push(name);
+      }
+    }
+  }
+
+  if (attendees.length > 0 || guests.length > 0) return { attendees, guests };
+  if (ALONE_PATTERN.test(text)) return { attendees: [], guests: [] };
+  return undefined;
+}
+
+// Function to check for a keyword that is not negated: "sure" but not "I'm not sure"
+function saysPlainly(pattern: RegExp, text: string): boolean {
+  for (const match of text.matchAll(new RegExp(pattern.source, 'gi'))) {
+    if (!NEGATION_PATTERN.test(text.substring(0, match.index))) return true;
+  }
+  return false;
+}
+
+// Which option the user picked: "option 2", "the second one", "the 3pm one", "Tuesday at 3"
+function findChosenOption(text: string, options: TimeSlot[], timezone: string): TimeSlot | undefined {
+  const lower = text.toLowerCase();
+
+  const numbered = lower.match(/\b(?:option|number|#)\s*(\d|one|two|three|four|five)\b/);
+  const ordinal = lower.match(/\b(first|second|third|fourth|fifth|last)\b/);
+  const index = numbered
+    ? parseInt(numbered[1], 10) || ORDINALS[numbered[1]]
+    : ordinal
+    ? ordinal[1] === 'last'
+      ? options.length
+      : ORDINALS[ordinal[1]]
+    : undefined;
+  if (index) return options[index - 1];
+
+  // A bare number could be a duration ("2 hours"), so times need "at", minutes or am/pm
+  const time = lower.match(/\b(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/);
+  if (!time || !(time[1] || time[3] || time[4])) return undefined;
+  const day = findDateRangeInText(text, timezone).range;
+  let hour = parseInt(time[2], 10);
+  const minute = parseInt(time[3] || '0', 10);
+  const meridiem = time[4];
+  if (meridiem?.startsWith('p') && hour < 12) hour += 12;
+  if (meridiem?.startsWith('a') && hour === 12) hour = 0;
+  return options.find((option) => {
+    const parts = getZonedParts(option.start, option.timezone);
+    // Without am/pm, "at 3" means 15:00 during working hours
+    const hours = meridiem ? [hour] : [hour, hour + 12];
+    const onDay = !day || (option.start >= day.start && option.start < day.end);
+    return onDay && hours.includes(parts.hour) && parts.minute === minute;
+  });
+}
+
+// Whether the text asks for a different length or other days
+function mentionsNewSearch(text: string, timezone: string): boolean {
+  return !!findDurationInText(text) || !!findDateRangeInText(text, timezone).range;
+}
+
+// Update the slots from free text; reports whether anything changed
+function fillSlots(
+  dialog: SchedulingDialog,
+  text: string,
+  timezone: string,
+  context: DialogContext
+): { changed: boolean; question?: string } {
+  let changed = false;
+
+  const durationMinutes = findDurationInText(text);
+  if (durationMinutes && durationMinutes !== dialog.slots.durationMinutes) {
+    dialog.slots.durationMinutes = durationMinutes;
+    changed = true;
+  }
+
+  const people = extractAttendees(text, timezone, context);
+  if (people) {
+    dialog.slots.attendees = people.attendees;
+    dialog.slots.guests = people.guests;
+    changed = true;
+  }
+
+  const mentioned = findDateRangeInText(text, timezone);
+  if (mentioned.range) {
+    const previous = dialog.slots.range;
+    dialog.slots.range = mentioned.range;
+    changed =
+      changed ||
+      previous?.start.getTime() !== mentioned.range.start.getTime() ||
+      previous?.end.getTime() !== mentioned.range.end.getTime();
+  }
+
+  return { changed, question: mentioned.question };
+}
+
+// The question to ask for whatever is still missing, if anything
+function missingSlotsQuestion(dialog: SchedulingDialog): string | undefined {
+  const missing: string[] = [];
+  // In a group session everyone who spoke attends
+  if (!dialog.slots.attendees && speakers(dialog).length < 2) missing.push('who should attend (mention them, or say "just me")');
+  if (!dialog.slots.durationMinutes) missing.push('how long the meeting should be');
+  if (!dialog.slots.range) missing.push('which days I should look at');
+  if (missing.length === 0) return undefined;
+
+  return `To find a time I still need to know ${joinNames(missing)}.`;
+}
+
+// Withdraw the options on offer, e.g. when going back to collecting
+function clearOptions(dialog: SchedulingDialog): void {
+  if (dialog.proposalId) closeProposal(dialog.proposalId);
+  dialog.options = [];
+  dialog.choice = undefined;
+  dialog.proposalId = undefined;
+}
+
+// Move to proposing with fresh options, or back to collecting when none fit
+async function propose(
+  sessionId: string,
+  dialog: SchedulingDialog,
+  context: DialogContext,
+  intro = ''
+): Promise<string> {
+  const missing = missingSlotsQuestion(dialog);
+  if (missing) {
+    dialog.state = 'collecting';
+    clearOptions(dialog);
+    return `${intro}${missing}`;
+  }
+
+  // Everyone who spoke and every server member named must be free
+  const people = [...speakers(dialog)];
+  for (const attendee of dialog.slots.attendees || []) {
+    if (attendee.discordId && !people.some((person) => person.id === attendee.discordId)) {
+      people.push({ id: attendee.discordId, name: `<@${attendee.discordId}>` });
+    }
+  }
+
+  // Any registered room big enough for everyone, as with /schedule room:any
+  const attendeeCount = meetingAttendees(dialog).length + (dialog.slots.guests?.length || 0);
+  const rooms = selectRooms(context.guildId, ANY_ROOM, attendeeCount);
+  if (!rooms.ok && listRooms(context.guildId).length > 0) {
+    intro += `${rooms.error} I'll look for times without a room. `;
+  }
+
+  const result = await getMeetingTimesByVoice(formatTranscript(dialog), {
+    people,
+    guildId: context.guildId,
+    durationMinutes: dialog.slots.durationMinutes as number,
+    range: dialog.slots.range,
+    exclude: dialog.offered,
+    rooms: rooms.ok ? rooms.value : undefined,
+  });
+  if (result.scheduleRequired) {
+    dialog.state = 'collecting';
+    clearOptions(dialog);
+    return `${intro}${SCHEDULE_REQUIRED_MESSAGE}`;
+  }
+  if (result.slots.length === 0) {
+    // Ask for other days rather than offering nothing
+    dialog.state = 'collecting';
+    dialog.slots.range = undefined;
+    clearOptions(dialog);
+    const blocking =
+      result.conflicts.length > 0 ? ` ${joinNames(result.conflicts)}'s schedule blocks every option.` : '';
+    return `${intro}I couldn't find a free ${dialog.slots.durationMinutes}-minute slot${
+      dialog.offered.length > 0 ? ' that I have not offered yet' : ''
+    } on those days.${blocking} Which other days should I look at?`;
+  }
+  if (result.missingSchedules.length > 0) {
+    intro += `I don't have a schedule for ${joinNames(result.missingSchedules)} yet, so these only fit everyone else. `;
+  }
+
+  clearOptions(dialog);
+  const proposal = createProposal({
+    ownerId: dialog.organizerId,
+    sessionId,
+    guildId: context.guildId,
+    source: 'conversation',
+    title: dialogTitle(dialog),
+    details: formatTranscript(dialog),
+    attendees: meetingAttendees(dialog),
+    slots: result.slots,
+  });
+
+  dialog.state = 'proposing';
+  dialog.options = result.slots;
+  dialog.offered.push(...result.slots);
+  dialog.proposalId = proposal.id;
+  return `${intro}Here are some options: ${result.slots
+    .map((slot, index) => `option ${index + 1}, ${formatTimeSlot(slot)}`)
+    .join('; ')}. Which one works?`;
+}
+
+// Organizer first, then everyone who spoke, then everyone else named in the conversation
+function meetingAttendees(dialog: SchedulingDialog): Attendee[] {
+  const speakerIds = speakers(dialog).map((speaker) => speaker.id);
+  const others = (dialog.slots.attendees || []).filter(
+    (attendee) => !attendee.discordId || !speakerIds.includes(attendee.discordId)
+  );
+  return [
+    ...speakerIds.map((id) => ({ discordId: id, email: getLinkedEmail(id), optional: false })),
+    ...others,
+  ];
+}
+
+// Create the calendar event for the confirmed option
+async function book(dialog: SchedulingDialog, context: DialogContext): Promise<BookedMeeting> {
+  const slot = dialog.choice as TimeSlot;
+  const guests = dialog.slots.guests?.length ? `\n\nAlso invited: ${dialog.slots.guests.join(', ')}` : '';
+  if (dialog.proposalId) closeProposal(dialog.proposalId);
+  const room = slot.room ? findRoom(context.guildId, slot.room) : undefined;
+  return bookMeeting(
+    dialog.organizerId,
+    {
+      title: dialogTitle(dialog),
+      description: `${formatTranscript(dialog)}${guests}`,
+      slot,
+      attendees: meetingAttendees(dialog),
+      room: room ? roomLocation(room) : slot.room,
+      roomId: room?.id,
+      conference: true,
+    },
+    { guildId: context.guildId, channelId: context.channelId }
+  );
+}
+
+// Handle free text in the current state
+async function handleUtteranceText(
+  sessionId: string,
+  dialog: SchedulingDialog,
+  text: string,
+  context: DialogContext
+): Promise<{ reply: string; meeting?: BookedMeeting }> {
+  const timezone = resolveTimezone(dialog.organizerId, context.guildId);
+
+  if (saysPlainly(CANCEL_PATTERN, text)) {
+    dialog.state = 'cancelled';
+    return { reply: 'Okay, I cancelled this scheduling request.' };
+  }
+
+  // Picking and confirming come before slot filling: "the 3pm one" is not a new range
+  if (dialog.state === 'confirming') {
+    const other = findChosenOption(text, dialog.options, timezone);
+    if (other && other !== dialog.choice) {
+      dialog.choice = other;
+      return { reply: `Should I book ${formatTimeSlot(other)}? Say yes to confirm or no to pick another time.` };
+    }
+    // A mixed answer ("yes, no wait") is neither; the question is asked again
+    const newSearch = mentionsNewSearch(text, timezone);
+    const yes = saysPlainly(YES_PATTERN, text);
+    const no = saysPlainly(NO_PATTERN, text);
+    if (yes && !no && !newSearch) {
+      try {
+        const meeting = await book(dialog, context);
+        dialog.state = 'booked';
+        dialog.eventId = meeting.eventId;
+        return { reply: `Done! I booked ${formatTimeSlot(meeting.request.slot)}.`, meeting };
+      } catch (error) {
+        console.error('Error booking confirmed meeting:', error);
+        return { reply: 'I could not create the calendar event. Say yes to try again or pick another time.' };
+      }
+    }
+    if (no && !yes && !newSearch) {
+      dialog.state = 'proposing';
+      dialog.choice = undefined;
+      return { reply: 'Okay. Which of the other options works, or should I look for more?' };
+    }
+  }
+
+  if (dialog.state === 'proposing') {
+    const choice = findChosenOption(text, dialog.options, timezone);
+    if (choice) {
+      dialog.state = 'confirming';
+      dialog.choice = choice;
+      return { reply: `Should I book ${formatTimeSlot(choice)}? Say yes to confirm or no to pick another time.` };
+    }
+    if (MORE_PATTERN.test(text)) {
+      return { reply: await propose(sessionId, dialog, context, 'Let me look for other times. ') };
+    }
+  }
+
+  const { changed, question } = fillSlots(dialog, text, timezone, context);
+  if (question) return { reply: question };
+  if (dialog.state === 'collecting' || changed) {
+    const intro = changed && dialog.options.length > 0 ? 'Got it, updating the options. ' : '';
+    // A different search may offer earlier options again
+    if (changed) dialog.offered = [];
+    return { reply: await propose(sessionId, dialog, context, intro) };
+  }
+
+  return {
+    reply:
+      dialog.state === 'confirming'
+        ? `Should I book ${formatTimeSlot(dialog.choice as TimeSlot)}? Please say yes or no.`
+        : 'Which option works? Say its number, or ask for more options.',
+  };
+}
+
+/**
+ * Feed one input into a session's scheduling conversation and move it to its
+ * next state. Text, voice, schedule uploads and the suggestion buttons all go
+ * through here, so every channel sees the same conversation.
+ */
+export function advanceDialog(
+  sessionId: string,
+  input: DialogInput,
+  context: DialogContext = {}
+): Promise<DialogTurn> {
+  const previous = sessionQueues.get(sessionId) || Promise.resolve();
+  const turn = previous.catch(() => undefined).then(() => runTurn(sessionId, input, context));
+  sessionQueues.set(sessionId, turn);
+  turn
+    .catch(() => undefined)
+    .then(() => {
+      if (sessionQueues.get(sessionId) === turn) sessionQueues.delete(sessionId);
+    });
+  return turn;
+}
+
+async function runTurn(
+  sessionId: string,
+  input: DialogInput,
+  context: DialogContext
+): Promise<DialogTurn> {
+  const speaker = 'speaker' in input ? input.speaker : undefined;
+  const dialog = dialogs.get(sessionId) || newDialog(speaker);
+  const previousState = dialog.state;
+  let reply: string;
+  let meeting: BookedMeeting | undefined;
+
+  if (speaker) {
+    if (!dialog.organizerId) dialog.organizerId = speaker.id;
+    dialog.participants[speaker.id] = speaker.name;
+  }
+
+  switch (input.kind) {
+    case 'voice':
+    case 'text': {
+      dialog.transcript.push({ speakerId: input.speaker.id, speaker: input.speaker.name, text: input.text });
+      ({ reply, meeting } = await handleUtteranceText(sessionId, dialog, input.text, context));
+      break;
+    }
+    case 'schedule': {
+      // A new schedule can change which options are free
+      const thanks = `Thanks, I have ${speakers(dialog).length > 1 ? `${input.speaker.name}'s` : 'your'} schedule. `;
+      reply =
+        dialog.state === 'collecting' && dialog.transcript.length === 0
+          ? `${thanks}Who should attend, how long should it be and which days should I look at?`
+          : await propose(sessionId, dialog, context, thanks);
+      break;
+    }
+    case 'more':
+      reply = await propose(sessionId, dialog, context, 'Let me look for other times. ');
+      break;
+    case 'booked':
+      dialog.state = 'booked';
+      dialog.choice = input.meeting.request.slot;
+      dialog.eventId = input.meeting.eventId;
+      meeting = input.meeting;
+      reply = `Done! I booked ${formatTimeSlot(input.meeting.request.slot)}.`;
+      break;
+    case 'cancel':
+      dialog.state = 'cancelled';
+      reply = 'Okay, I cancelled this scheduling request.';
+      break;
+  }
+
+  if (dialog.state !== previousState) {
+    console.log(`🔀 Dialog ${sessionId}: ${previousState} → ${dialog.state}`);
+  }
+  if (dialog.state === 'booked' || dialog.state === 'cancelled') {
+    endConversationSession(sessionId, dialog);
+  } else {
+    dialogs.set(sessionId, dialog);
+  }
+
+  return { dialog, previousState, reply, meeting };
+}
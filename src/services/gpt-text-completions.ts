@@ -1,81 +1,310 @@
-import { getFreeBusy } from './calendar';
-import axios from 'axios';
+import { getCalendarProvider } from './calendar';
+import { Attendee, attendeeLabel } from './attendees';
+import { availabilityToBusyIntervals, getUserAvailability } from './availability';
+import { getRoomBusy, Room } from './rooms';
+import {
+  AttendeeBusy,
+  findConflictingAttendees,
+  findSlotsForAttendees,
+  SchedulingConstraints,
+  SlotSearch,
+  TimeOfDayWindow,
+  WorkingHours,
+  workingHoursForRange,
+} from './scheduler';
+import { formatTimeSlot, TimeSlot } from '../utils/parseHelpers';
+import { DateRange, PART_OF_DAY_WINDOWS } from '../utils/dateParser';
+import { parseTimeOfDay } from '../utils/timezone';
+import { getLlmProvider, LlmJsonSchema, LlmTask } from './llm';
+
+// Suggested slots plus a short natural-language explanation
+export interface MeetingProposal {
+  slots: TimeSlot[];
+  explanation?: string;
+  conflicts: string[]; // Required attendees (or rooms) blocking the meeting when no slot fits
+  unresolved: string[]; // Attendees without a known calendar (e.g. unlinked @mentions)
+  search: SlotSearch; // Solver inputs, used to offer more options later
+}
+
+// Constraints the model derives from the user's free-text preferences
+export interface PreferenceConstraints {
+  preferredWindows: TimeOfDayWindow[];
+  avoidWindows: TimeOfDayWindow[];
+  preferredDays: number[];
+  workingHours: WorkingHours | null;
+  bufferMinutes: number | null;
+}
+
+const TIME_OF_DAY_WINDOW_SCHEMA = {
+  type: 'object',
+  properties: {
+    start: { type: 'string', description: 'HH:mm, 24-hour clock' },
+    end: { type: 'string', description: 'HH:mm, 24-hour clock' },
+  },
+  required: ['start', 'end'],
+  additionalProperties: false,
+};
+
+const PREFERENCE_CONSTRAINTS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    preferredWindows: { type: 'array', items: TIME_OF_DAY_WINDOW_SCHEMA },
+    avoidWindows: { type: 'array', items: TIME_OF_DAY_WINDOW_SCHEMA },
+    preferredDays: {
+      type: 'array',
+      items: { type: 'integer', description: '0 = Sunday ... 6 = Saturday' },
+    },
+    workingHours: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            start: { type: 'string' },
+            end: { type: 'string' },
+            days: { type: 'array', items: { type: 'integer' } },
+          },
+          required: ['start', 'end', 'days'],
+          additionalProperties: false,
+        },
+        { type: 'null' },
+      ],
+    },
+    bufferMinutes: { type: ['integer', 'null'] },
+  },
+  required: ['preferredWindows', 'avoidWindows', 'preferredDays', 'workingHours', 'bufferMinutes'],
+  additionalProperties: false,
+};
+
+const EMPTY_PREFERENCES: PreferenceConstraints = {
+  preferredWindows: [],
+  avoidWindows: [],
+  preferredDays: [],
+  workingHours: null,
+  bufferMinutes: null,
+};
+
+// Keep a window only when both ends are valid HH:mm times and it is not empty
+function validWindow(value: unknown): TimeOfDayWindow | null {
+  if (!value || typeof value !== 'object') return null;
+  const { start, end } = value as Record<string, unknown>;
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  return startMinutes !== null && endMinutes !== null && endMinutes > startMinutes
+    ? { start: start.trim(), end: end.trim() }
+    : null;
+}
+
+function validWindows(value: unknown): TimeOfDayWindow[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(validWindow)
+    .filter((window): window is TimeOfDayWindow => window !== null);
+}
+
+// Weekday numbers, 0 = Sunday ... 6 = Saturday
+function validDays(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  const days = value.filter(
+    (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6
+  );
+  return [...new Set(days)];
+}
+
+// Drop anything in the model's answer the solver cannot use
+function validatePreferences(raw: unknown): PreferenceConstraints {
+  if (!raw || typeof raw !== 'object') return EMPTY_PREFERENCES;
+  const fields = raw as Record<string, unknown>;
+
+  const hours = validWindow(fields.workingHours);
+  const hoursDays = hours
+    ? validDays((fields.workingHours as Record<string, unknown>).days)
+    : [];
+  const buffer = fields.bufferMinutes;
+
+  return {
+    preferredWindows: validWindows(fields.preferredWindows),
+    avoidWindows: validWindows(fields.avoidWindows),
+    preferredDays: validDays(fields.preferredDays),
+    workingHours: hours && hoursDays.length > 0 ? { ...hours, days: hoursDays } : null,
+    bufferMinutes:
+      typeof buffer === 'number' && Number.isFinite(buffer) ? Math.max(0, Math.round(buffer)) : null,
+  };
+}
+
+// Send a single prompt to the configured LLM and return the message text
+async function requestChatCompletion(
+  task: LlmTask,
+  prompt: string,
+  jsonSchema?: LlmJsonSchema
+): Promise<string> {
+  return getLlmProvider().complete({
+    task,
+    messages: [
+      {
+        role: 'system',
+        content: 'You help users schedule meetings efficiently.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    jsonSchema,
+  });
+}
 
 /**
- * Get 3 optimal meeting times by combining freeBusy data + OpenAI reasoning
+ * Turn free-text scheduling preferences into constraints for the solver
  */
-export async function getOptimalMeetingTimes(
-  email: string,
-  duration: string,
-  details: string,
-  startDate: Date,
-  endDate: Date,
+export async function extractPreferenceConstraints(
   preferredTime: string,
-  room: string
-): Promise<string[]> {
-  const timezone = 'Asia/Bangkok';
-  const freeBusyPrompt = `
-  You are a smart meeting scheduler.
-  Given:
-  - Preferred time: ${preferredTime}
-  - Room: ${room}
+  details: string,
+  timezone: string
+): Promise<PreferenceConstraints> {
+  if (!preferredTime && !details) {
+    return EMPTY_PREFERENCES;
+  }
+
+  const { morning, afternoon, evening } = PART_OF_DAY_WINDOWS;
+  const prompt = `
+  Convert these meeting preferences into scheduling constraints.
+  - Preferred time: ${preferredTime || 'none'}
+  - Details: ${details || 'none'}
   - Timezone: ${timezone}
-  - Email: ${email}
-  - Duration: ${duration}
-  - Details: ${details}
-  
-  Suggest 3 optimal free 30-minute meeting slots between ${startDate} and ${endDate}, in ISO 8601 format.
-  Do not overlap busy slots. Prefer ${preferredTime}.
+
+  Use 24-hour HH:mm times in ${timezone}. "Morning" is ${morning.start}-${morning.end}, "afternoon" is ${afternoon.start}-${afternoon.end}, "evening" is ${evening.start}-${evening.end}.
+  Only set workingHours or bufferMinutes when the user states them explicitly; otherwise use null.
+  Use empty arrays when there is no preference.
   `;
 
-  // 1️⃣ Fetch busy slots from Google Calendar
-  const { response } = await getFreeBusy(freeBusyPrompt, timezone);
+  try {
+    const text = await requestChatCompletion('preferences', prompt, {
+      name: 'preference_constraints',
+      schema: PREFERENCE_CONSTRAINTS_JSON_SCHEMA,
+    });
+    return validatePreferences(JSON.parse(text));
+  } catch (error) {
+    console.error('Error extracting preference constraints:', error);
+    return EMPTY_PREFERENCES;
+  }
+}
 
-  console.log('Busy slots:', response);
+/**
+ * Ask the model for a short explanation of why the solver picked these slots
+ */
+export async function explainSuggestions(
+  slots: TimeSlot[],
+  preferredTime: string,
+  details: string
+): Promise<string | undefined> {
+  if (slots.length === 0) return undefined;
 
   const prompt = `
-  You are a smart meeting scheduler.
-  Given:
-  - Busy slots for ${email}:
-  ${response}
-  - Preferred time: ${preferredTime}
-  - Room: ${room}
-  - Timezone: ${timezone}
-  - Email: ${email}
-  - Duration: ${duration}
-  - Details: ${details}
+  These meeting slots were computed from everyone's calendar and are all free:
+  ${slots.map((slot, index) => `${index + 1}. ${formatTimeSlot(slot)}`).join('\n  ')}
+  - Preferred time: ${preferredTime || 'none'}
+  - Details: ${details || 'none'}
 
-  Suggest 3 optimal free 30-minute meeting slots between ${startDate} and ${endDate}, in ISO 8601 format.
-  Do not overlap busy slots. Prefer ${preferredTime}.
+  In one or two sentences, explain how these options fit the preferences. Do not suggest other times.
   `;
 
-  // 3️⃣ Call OpenAI to suggest
+  try {
+    return await requestChatCompletion('explanation', prompt);
+  } catch (error) {
+    console.error('Error explaining suggestions:', error);
+    return undefined;
+  }
+}
 
-  const res = await axios.post(
-    'https://api.openai.com/v1/chat/completions',
-    {
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You help users schedule meetings efficiently.',
-        },
-        { role: 'user', content: prompt },
+/**
+ * Get 3 optimal meeting times by running the free-slot solver on every
+ * attendee's freeBusy data. OpenAI is only used to read preferences and
+ * explain the result. When rooms are given, every slot comes with one of them
+ * that is free for the whole meeting.
+ */
+export async function getOptimalMeetingTimes(
+  attendees: Attendee[],
+  durationMinutes: number,
+  details: string,
+  range: DateRange,
+  preferredTime: string,
+  rooms: Room[],
+  timezone: string
+): Promise<MeetingProposal> {
+  const rangeStart = range.start;
+  const rangeEnd = range.end;
+
+  // Attendees need a calendar email or an uploaded schedule before their availability can be checked
+  const uploadedAvailability = (attendee: Attendee) =>
+    attendee.discordId ? getUserAvailability(attendee.discordId) : undefined;
+  const known = attendees.filter((attendee) => attendee.email || uploadedAvailability(attendee));
+  const withCalendar = attendees.filter((attendee) => attendee.email);
+  const unresolved = attendees
+    .filter((attendee) => !known.includes(attendee))
+    .map((attendee) => attendeeLabel(attendee));
+
+  // 1️⃣ Turn preferences into solver constraints
+  const preferences = await extractPreferenceConstraints(preferredTime, details, timezone);
+
+  // 2️⃣ Fetch busy slots from Google Calendar and uploaded schedules; skip the
+  // calendar when everyone only uploaded a schedule
+  const emails = withCalendar.map((attendee) => attendee.email as string);
+  const busyByEmail =
+    emails.length > 0
+      ? await getCalendarProvider().getBusyIntervals(emails, rangeStart, rangeEnd, timezone)
+      : {};
+  const toAttendeeBusy = (attendee: Attendee): AttendeeBusy => {
+    const availability = uploadedAvailability(attendee);
+    return {
+      label: attendeeLabel(attendee),
+      busy: [
+        ...((attendee.email && busyByEmail[attendee.email]) || []),
+        ...(availability ? availabilityToBusyIntervals(availability, rangeStart, rangeEnd) : []),
       ],
-      temperature: 0.3,
-      top_p: 0.5,
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-    }
+    };
+  };
+  const required = known.filter((attendee) => !attendee.optional).map(toAttendeeBusy);
+  const optional = known.filter((attendee) => attendee.optional).map(toAttendeeBusy);
+
+  console.log(
+    `🗓️ Checking ${required.length} required and ${optional.length} optional attendee(s) for free slots`
   );
 
-  const text = res.data.choices[0].message.content.trim();
-  return text
-    .split('\n')
-    .map((line: any) => line.trim())
-    .filter((line: any) => line);
+  // 3️⃣ Intersect everyone's availability locally
+  const constraints: SchedulingConstraints = {
+    durationMinutes,
+    rangeStart,
+    rangeEnd,
+    timezone,
+    preferredWindows: preferences.preferredWindows,
+    avoidWindows: preferences.avoidWindows,
+    preferredDays: preferences.preferredDays,
+    workingHours: workingHoursForRange(
+      { start: rangeStart, end: rangeEnd },
+      timezone,
+      range.timeOfDay,
+      preferences.workingHours || undefined
+    ),
+    bufferMinutes: preferences.bufferMinutes ?? undefined,
+    rooms: rooms.map((room) => ({ name: room.name, busy: getRoomBusy(room.id) })),
+  };
+  const slots = findSlotsForAttendees(required, optional, constraints);
+
+  if (slots.length === 0) {
+    return {
+      slots,
+      conflicts: findConflictingAttendees(required, constraints),
+      unresolved,
+      search: { required, optional, constraints },
+    };
+  }
+
+  // 4️⃣ Let OpenAI explain the picks
+  const explanation = await explainSuggestions(slots, preferredTime, details);
+
+  return {
+    slots,
+    explanation,
+    conflicts: [],
+    unresolved,
+    search: { required, optional, constraints },
+  };
 }
@@ -1,122 +1,177 @@
-import axios from 'axios';
+import {
+  MEETING_SUGGESTIONS_JSON_SCHEMA,
+  MeetingSuggestions,
+  parseMeetingSuggestions,
+  TimeSlot,
+} from '../utils/parseHelpers';
+import { resolveTimezone } from './timezones';
+import {
+  availabilityToBusyIntervals,
+  getUserAvailability,
+  serializeAvailability,
+  UserAvailability,
+} from './availability';
+import {
+  AttendeeBusy,
+  findConflictingAttendees,
+  findSlotsForAttendees,
+  SchedulingConstraints,
+  workingHoursForRange,
+} from './scheduler';
+import { DateRange } from '../utils/dateParser';
+import { getLlmProvider } from './llm';
+import { getRoomBusy, Room } from './rooms';
+
+// Slots picked for a scheduling conversation
+export interface VoiceSchedulingResult extends MeetingSuggestions {
+  // True when nobody has provided a schedule yet and nothing was suggested
+  scheduleRequired: boolean;
+  missingSchedules: string[]; // People whose schedule is unknown and was not checked
+  conflicts: string[]; // People whose schedule blocks every slot, when nothing fits
+}
+
+// Message returned when no schedule data is available for the user
+export const SCHEDULE_REQUIRED_MESSAGE =
+  'Please upload your schedule image or provide your availability so I can suggest appropriate meeting times. You can upload a calendar screenshot or tell me your available days and times.';
+
+// How far ahead voice conversations look for free slots when no days were given
+const VOICE_SEARCH_DAYS = 14;
+
+// What the scheduling dialog has collected so far
+export interface VoiceSlotSearch {
+  people: { id: string; name: string }[]; // Everyone who must be free; the first one organizes
+  guildId?: string;
+  durationMinutes: number;
+  range?: DateRange;
+  exclude?: TimeSlot[]; // Slots already offered in this conversation
+  rooms?: Room[]; // Rooms the meeting can use; every slot then comes with a free one
+}
 
 /**
- * Get 3 optimal meeting times by combining freeBusy data + OpenAI reasoning
+ * Get 3 optimal meeting times: free slots are computed from the uploaded
+ * schedules of everyone in the conversation and the model picks the ones that
+ * fit what each person said
  */
 export async function getMeetingTimesByVoice(
-  transcript: string,
-  conversationContext?: { transcript: string; meetingTimes: string[] },
-  userId?: string
-): Promise<string[]> {
-  const timezone = 'Asia/Bangkok';
+  conversation: string,
+  search: VoiceSlotSearch
+): Promise<VoiceSchedulingResult> {
+  const timezone = resolveTimezone(search.people[0]?.id, search.guildId);
 
-  // Check if user has schedule data in global variable
-  let scheduleData = '';
-  if (userId) {
-    // Import the global schedule variable
-    const { currentUserSchedule } = await import('./whisper');
-    scheduleData = currentUserSchedule.get(userId) || '';
-  }
+  // Uploaded schedules are the source of truth for availability
+  const schedules = search.people.map((person) => ({
+    ...person,
+    availability: getUserAvailability(person.id),
+  }));
+  const known = schedules.filter((person) => person.availability);
+  const missingSchedules = schedules
+    .filter((person) => !person.availability)
+    .map((person) => person.name);
 
-  // If no schedule data available, ask user to provide it
-  if (!scheduleData) {
-    return [
-      'SCHEDULE_REQUIRED: Please upload your schedule image or provide your availability so I can suggest appropriate meeting times.',
-      'You can upload a calendar screenshot or tell me your available days and times.'
-    ];
+  // If no schedule data available, ask for it
+  if (known.length === 0) {
+    return {
+      slots: [],
+      followUp: SCHEDULE_REQUIRED_MESSAGE,
+      scheduleRequired: true,
+      missingSchedules,
+      conflicts: [],
+    };
   }
 
-  // Extract schedule data from conversation context as backup
-  if (!scheduleData && conversationContext?.transcript) {
-    const scheduleMatch = conversationContext.transcript.match(/\[SCHEDULE DATA\]: (.+?)(?=\n|$)/s);
-    if (scheduleMatch) {
-      scheduleData = scheduleMatch[1];
-    }
+  // Compute free slots from the schedules so the model can only pick real gaps
+  const requested = search.range;
+  const now = new Date();
+  const rangeStart = requested && requested.start.getTime() > now.getTime() ? requested.start : now;
+  const rangeEnd = requested
+    ? requested.end
+    : new Date(now.getTime() + VOICE_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+  const required: AttendeeBusy[] = known.map((person) => ({
+    label: person.name,
+    busy: availabilityToBusyIntervals(person.availability as UserAvailability, rangeStart, rangeEnd),
+  }));
+  const constraints: SchedulingConstraints = {
+    durationMinutes: search.durationMinutes,
+    rangeStart,
+    rangeEnd,
+    timezone,
+    workingHours: requested
+      ? workingHoursForRange({ start: rangeStart, end: rangeEnd }, timezone, requested.timeOfDay)
+      : undefined,
+    excluded: search.exclude,
+    rooms: search.rooms?.map((room) => ({ name: room.name, busy: getRoomBusy(room.id) })),
+    maxResults: 10,
+    maxPerDay: 3,
+  };
+  const candidates = findSlotsForAttendees(required, [], constraints);
+  if (candidates.length === 0) {
+    const conflicts = required.length > 1 ? findConflictingAttendees(required, constraints) : [];
+    return { slots: [], scheduleRequired: false, missingSchedules, conflicts };
   }
 
-  // Check conversation length to determine if we should provide follow-up questions
-  const conversationLength = conversationContext?.transcript.split('\n').length || 0;
-  const hasMeetingTimes = conversationContext?.meetingTimes.length || 0 > 0;
+  const candidateList = candidates
+    .map((slot) => `- ${slot.start.toISOString()} to ${slot.end.toISOString()}${slot.room ? ` in ${slot.room}` : ''}`)
+    .join('\n');
+  const scheduleData = known
+    .map(
+      (person) =>
+        `${person.name} (${person.availability?.timezone}):\n${
+          serializeAvailability(person.availability as UserAvailability) || 'No blocks recorded'
+        }`
+    )
+    .join('\n');
 
-  let prompt = '';
-  if (scheduleData) {
-    if (conversationLength >= 3 && hasMeetingTimes) {
-      // Provide final summary with schedule data
-      prompt = `You are a smart meeting scheduler with access to the user's schedule.
-Given transcript: ${transcript}
-Schedule data: ${scheduleData}
-Previous meeting suggestions: ${conversationContext?.meetingTimes.join(', ')}
-Conversation length: ${conversationLength}
+  const prompt = `You are a smart meeting scheduler with access to the participants' schedules.
+Conversation so far (each line starts with the speaker's name):
+${conversation}
+Weekly schedules:
+${scheduleData}
+Free ${search.durationMinutes}-minute slots computed from the schedules:
+${candidateList}
 Timezone: ${timezone}
 
-The user has provided enough information. Provide a final summary of the meeting details and confirm the scheduling. Include the confirmed meeting time, participants, and any other relevant details.`;
-    } else {
-      // Generate follow-up questions with schedule data
-      prompt = `You are a smart meeting scheduler with access to the user's schedule.
-Given transcript: ${transcript}
-Schedule data: ${scheduleData}
-Previous context: ${conversationContext?.transcript || 'None'}
-Timezone: ${timezone}
+Pick the 3 free slots that best fit the constraints every speaker stated in the conversation and return them in "slots" (ISO 8601 start and end with offsets, confidence between 0 and 1). Only use slots from the list above. Leave "followUp" and "summary" null.`;
 
-Based on the user's schedule and previous conversation, suggest 3 optimal meeting times AND generate 1-2 follow-up questions to gather more information. Format as:
-1. [ISO 8601 time]
-2. [ISO 8601 time] 
-3. [ISO 8601 time]
-Follow-up: [Your questions]`;
-    }
-  } else {
-    if (conversationLength >= 3 && hasMeetingTimes) {
-      // Provide final summary without schedule data
-      prompt = `You are a smart meeting scheduler.
-Given transcript: ${transcript}
-Previous meeting suggestions: ${conversationContext?.meetingTimes.join(', ')}
-Conversation length: ${conversationLength}
-Timezone: ${timezone}
-
-The user has provided enough information. Provide a final summary of the meeting details and confirm the scheduling. Include the confirmed meeting time, participants, and any other relevant details.`;
-    } else {
-      // Generate follow-up questions without schedule data
-      prompt = `You are a smart meeting scheduler.
-Given transcript: ${transcript}
-Previous context: ${conversationContext?.transcript || 'None'}
-Timezone: ${timezone}
+  const text = await getLlmProvider().complete({
+    task: 'conversation',
+    messages: [
+      {
+        role: 'system',
+        content: 'You help users schedule meetings efficiently.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    jsonSchema: { name: 'meeting_suggestions', schema: MEETING_SUGGESTIONS_JSON_SCHEMA },
+  });
+  const suggestions = parseMeetingSuggestions(text, {
+    timezone,
+    durationMinutes: search.durationMinutes,
+  });
 
-Suggest 3 optimal free 30-minute meeting slots AND generate 1-2 follow-up questions to gather more information. Format as:
-1. [ISO 8601 time]
-2. [ISO 8601 time]
-3. [ISO 8601 time]
-Follow-up: [Your questions]`;
+  // Keep only picks that are exactly one of the computed slots; anything else was invented
+  const slots: TimeSlot[] = [];
+  for (const slot of suggestions.slots) {
+    const candidate = candidates.find(
+      (free) =>
+        free.start.getTime() === slot.start.getTime() && free.end.getTime() === slot.end.getTime()
+    );
+    if (candidate && !slots.some((picked) => picked.start.getTime() === candidate.start.getTime())) {
+      slots.push({ ...candidate, confidence: slot.confidence });
     }
   }
+  if (slots.length < suggestions.slots.length) {
+    console.warn(
+      `⚠️ Dropped ${suggestions.slots.length - slots.length} suggested slot(s) that are not in the computed free slots`
+    );
+  }
 
-  const res = await axios.post(
-    'https://api.openai.com/v1/chat/completions',
-    {
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You help users schedule meetings efficiently.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      top_p: 0.5,
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-    }
-  );
-
-  const text = res.data.choices[0].message.content.trim();
-  return text
-    .split('\n')
-    .map((line: any) => line.trim())
-    .filter((line: any) => line);
+  return {
+    slots: slots.length > 0 ? slots : candidates.slice(0, 3),
+    scheduleRequired: false,
+    missingSchedules,
+    conflicts: [],
+  };
 }
@@ -0,0 +1,30 @@
+import { createPersistentMap } from './storage';
+import type { ReminderDelivery } from './reminders';
+
+// Per-guild bot settings that have no store of their own. Timezone, language
+// and listening mode live with their services and are changed through /config too.
+export interface GuildConfig {
+  outputChannelId?: string; // Where voice, image and text replies are posted
+  autoJoin?: boolean; // Join voice on its own; unset follows the listening mode
+  reminderOffsets?: number[]; // Minutes before a meeting; unset uses MEETING_REMINDERS
+  reminderDelivery?: ReminderDelivery; // Unset uses REMINDER_DELIVERY
+}
+
+// Settings per guild ID
+const guildConfigs = createPersistentMap<GuildConfig>('guild-config');
+
+// Function to get a guild's settings
+export function getGuildConfig(guildId: string | undefined): GuildConfig {
+  return (guildId && guildConfigs.get(guildId)) || {};
+}
+
+// Function to change a guild's settings; undefined fields are cleared
+export function updateGuildConfig(guildId: string, changes: Partial<GuildConfig>): GuildConfig {
+  const updated: GuildConfig = { ...getGuildConfig(guildId), ...changes };
+  for (const key of Object.keys(updated) as (keyof GuildConfig)[]) {
+    if (updated[key] === undefined) delete updated[key];
+  }
+  guildConfigs.set(guildId, updated);
+  console.log(`⚙️ Updated settings for guild ${guildId}:`, updated);
+  return updated;
+}
@@ -0,0 +1,156 @@
+import { createPersistentMap } from './storage';
+import { getGuildConfig } from './guild-config';
+
+// When the bot treats speech in a voice channel as meant for it:
+// always - everything that is said
+// wake-phrase - only after someone says the wake phrase ("hey scheduler")
+// command - only between /listen start and /listen stop
+export type ListeningMode = 'always' | 'wake-phrase' | 'command';
+
+export const LISTENING_MODES: ListeningMode[] = ['always', 'wake-phrase', 'command'];
+
+// Listening mode per guild ID
+const guildListeningModes = createPersistentMap<ListeningMode>('listening-modes');
+
+// Guilds where /listen start is active
+const activeListening = new Set<string>();
+
+// When each user last addressed the bot, keyed by guild and user ID
+const lastAddressed = new Map<string, number>();
+
+// Function to get the listening mode for guilds that have not chosen one (LISTENING_MODE)
+function getDefaultListeningMode(): ListeningMode {
+  const mode = process.env.LISTENING_MODE as ListeningMode;
+  return LISTENING_MODES.includes(mode) ? mode : 'wake-phrase';
+}
+
+// Function to get the wake phrase (WAKE_PHRASE, default "hey scheduler")
+export function getWakePhrase(): string {
+  return (process.env.WAKE_PHRASE || 'hey scheduler').toLowerCase();
+}
+
+// Function to get a guild's listening mode
+export function getListeningMode(guildId: string): ListeningMode {
+  return guildListeningModes.get(guildId) || getDefaultListeningMode();
+}
+
+// Function to set a guild's listening mode
+export function setListeningMode(guildId: string, mode: ListeningMode): void {
+  if (!LISTENING_MODES.includes(mode)) {
+    throw new Error(`"${mode}" is not a listening mode. Use ${LISTENING_MODES.join(', ')}.`);
+  }
+  guildListeningModes.set(guildId, mode);
+  console.log(`👂 Set listening mode for guild ${guildId}: ${mode}`);
+}
+
+// Function to treat all speech in a guild as addressed until stopListening
+export function startListening(guildId: string): void {
+  activeListening.add(guildId);
+}
+
+// Function to end an explicit /listen session
+export function stopListening(guildId: string): void {
+  activeListening.delete(guildId);
+  for (const key of [...lastAddressed.keys()]) {
+    if (key.startsWith(`${guildId}:`)) lastAddressed.delete(key);
+  }
+}
+
+// Function to check whether /listen start is active in a guild
+export function isListening(guildId: string): boolean {
+  return activeListening.has(guildId);
+}
+
+// Whether the bot should join voice on its own when someone enters a channel
+export function shouldAutoJoin(guildId: string): boolean {
+  return getGuildConfig(guildId).autoJoin ?? getListeningMode(guildId) !== 'command';
+}
+
+// Whether audio in the guild should be recorded at all
+export function shouldRecord(guildId: string): boolean {
+  return getListeningMode(guildId) !== 'command' || isListening(guildId);
+}
+
+// Keep the conversation open after the bot answered, so the user can reply without the wake phrase
+export function keepConversationOpen(guildId: string, userId: string): void {
+  if (lastAddressed.has(`${guildId}:${userId}`)) {
+    lastAddressed.set(`${guildId}:${userId}`, Date.now());
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Find the wake phrase in a transcript and return what was said after it,
+ * or undefined when the phrase is not there. Speech recognition often
+ * mishears a letter ("hey schedular", "hay scheduler") or merges the words
+ * ("heyscheduler"), so a run of whole words matches when it is at most one
+ * edit away from the whole phrase. Short phrases must match exactly.
+ */
+export function findWakePhrase(transcript: string, phrase = getWakePhrase()): string | undefined {
+  const expected = phrase.toLowerCase().split(/\s+/).filter((word) => word).join(' ');
+  const allowed = expected.length >= 5 ? 1 : 0;
+  const phraseLength = expected.split(' ').length;
+  const words = transcript.split(/\s+/).filter((word) => word);
+  const normalized = words.map((word) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, ''));
+
+  for (let start = 0; start < words.length; start++) {
+    // The recognizer may have merged or split one of the phrase's words
+    for (const length of [phraseLength, phraseLength - 1, phraseLength + 1]) {
+      if (length < 1 || start + length > words.length) continue;
+      const heard = normalized.slice(start, start + length).join(' ');
+      if (editDistance(heard, expected) <= allowed) {
+        return words
+          .slice(start + length)
+          .join(' ')
+          .replace(/^[\s,.!?;:]+/, '');
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decide whether a transcript was meant for the bot under the guild's
+ * listening mode. Returns the text to act on (without the wake phrase), or
+ * undefined when the speech should be ignored.
+ */
+export function filterAddressedSpeech(
+  guildId: string,
+  userId: string,
+  transcript: string
+): { text: string; wakeOnly: boolean } | undefined {
+  const key = `${guildId}:${userId}`;
+  if (getListeningMode(guildId) === 'always' || isListening(guildId)) {
+    return { text: transcript, wakeOnly: false };
+  }
+
+  const remainder = findWakePhrase(transcript);
+  if (remainder !== undefined) {
+    lastAddressed.set(key, Date.now());
+    return { text: remainder, wakeOnly: remainder.length === 0 };
+  }
+
+  // A follow-up to a conversation the user started with the wake phrase counts
+  // as addressed for WAKE_WINDOW_MS
+  const addressedAt = lastAddressed.get(key);
+  const wakeWindowMs = parseInt(process.env.WAKE_WINDOW_MS || '45000', 10);
+  if (addressedAt && Date.now() - addressedAt <= wakeWindowMs) {
+    lastAddressed.set(key, Date.now());
+    return { text: transcript, wakeOnly: false };
+  }
+  lastAddressed.delete(key);
+  return undefined;
+}
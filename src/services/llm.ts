@@ -0,0 +1,239 @@
+import OpenAI from 'openai';
+
+// Every place the bot asks a model for something; models and params are chosen per task
+export type LlmTask = 'preferences' | 'explanation' | 'conversation' | 'vision';
+
+// Model and sampling parameters for one task
+export interface LlmTaskSettings {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+// A chat message; images are passed as URLs or data: URLs
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: string[];
+}
+
+// A structured-output request: the reply must be JSON matching the schema
+export interface LlmJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  jsonSchema?: LlmJsonSchema;
+}
+
+// Backend that turns chat messages (optionally with images) into a reply
+export interface LlmProvider {
+  name: string;
+  complete(request: LlmRequest): Promise<string>;
+}
+
+// How a provider asks for JSON: native json_schema, plain JSON mode, or only via the prompt
+export type JsonMode = 'json_schema' | 'json_object' | 'prompt';
+
+// Sampling params per task; the model defaults to LLM_MODEL
+const DEFAULT_TASK_PARAMS: Record<LlmTask, Omit<LlmTaskSettings, 'model'>> = {
+  preferences: { temperature: 0.3, topP: 0.5 },
+  explanation: { temperature: 0.3, topP: 0.5 },
+  conversation: { temperature: 0.3, topP: 0.5 },
+  vision: { maxTokens: 2000 },
+};
+
+// Settings changed at runtime with setLlmTaskSettings
+const taskOverrides: Partial<Record<LlmTask, Partial<LlmTaskSettings>>> = {};
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Get the model and params for a task. Each setting can be overridden with
+ * LLM_<TASK>_MODEL, LLM_<TASK>_TEMPERATURE, LLM_<TASK>_TOP_P and
+ * LLM_<TASK>_MAX_TOKENS (e.g. LLM_VISION_MODEL=llava).
+ */
+export function getLlmTaskSettings(task: LlmTask): LlmTaskSettings {
+  const prefix = `LLM_${task.toUpperCase()}_`;
+  const fromEnv: Partial<LlmTaskSettings> = {
+    model: process.env[`${prefix}MODEL`] || undefined,
+    temperature: envNumber(`${prefix}TEMPERATURE`),
+    topP: envNumber(`${prefix}TOP_P`),
+    maxTokens: envNumber(`${prefix}MAX_TOKENS`),
+  };
+
+  const settings: LlmTaskSettings = {
+    model: process.env.LLM_MODEL || 'gpt-4o',
+    ...DEFAULT_TASK_PARAMS[task],
+  };
+  for (const source of [fromEnv, taskOverrides[task] || {}]) {
+    settings.model = source.model ?? settings.model;
+    settings.temperature = source.temperature ?? settings.temperature;
+    settings.topP = source.topP ?? settings.topP;
+    settings.maxTokens = source.maxTokens ?? settings.maxTokens;
+  }
+  return settings;
+}
+
+// Function to change a task's model or params at runtime
+export function setLlmTaskSettings(task: LlmTask, settings: Partial<LlmTaskSettings>): void {
+  taskOverrides[task] = { ...taskOverrides[task], ...settings };
+}
+
+// Convert our messages to the chat completions format
+function toOpenAiMessages(messages: LlmMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (message.role === 'user' && message.images?.length) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: message.content },
+          ...message.images.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content } as OpenAI.Chat.ChatCompletionMessageParam;
+  });
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API, such as
+ * a local Ollama or llama.cpp server. Servers without json_schema support can
+ * use jsonMode 'json_object' or 'prompt'; the schema is then added to the
+ * system prompt.
+ */
+export function createOpenAiCompatibleProvider(options: {
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  jsonMode?: JsonMode;
+}): LlmProvider {
+  const client = new OpenAI({
+    baseURL: options.baseUrl,
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: options.apiKey || 'not-needed',
+  });
+  const jsonMode = options.jsonMode || 'json_schema';
+
+  return {
+    name: options.name || 'openai-compatible',
+
+    async complete(request) {
+      const settings = getLlmTaskSettings(request.task);
+      let messages = request.messages;
+
+      if (request.jsonSchema && jsonMode !== 'json_schema') {
+        messages = [
+          {
+            role: 'system',
+            content: `Reply with JSON only, matching this JSON schema:\n${JSON.stringify(
+              request.jsonSchema.schema
+            )}`,
+          },
+          ...messages,
+        ];
+      }
+
+      const response = await client.chat.completions.create({
+        model: settings.model,
+        messages: toOpenAiMessages(messages),
+        temperature: settings.temperature,
+        top_p: settings.topP,
+        max_tokens: settings.maxTokens,
+        response_format: !request.jsonSchema
+          ? undefined
+          : jsonMode === 'json_schema'
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: request.jsonSchema.name,
+                strict: true,
+                schema: request.jsonSchema.schema,
+              },
+            }
+          : jsonMode === 'json_object'
+          ? { type: 'json_object' }
+          : undefined,
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`Empty response from ${settings.model}`);
+      }
+      return content.trim();
+    },
+  };
+}
+
+/**
+ * Provider backed by the OpenAI API (OPENAI_API_KEY)
+ */
+export function createOpenAiProvider(): LlmProvider {
+  return createOpenAiCompatibleProvider({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    jsonMode: 'json_schema',
+  });
+}
+
+/**
+ * Fake provider for tests and offline runs. Replies are taken from the script
+ * in order; a function reply can inspect the request. Every request is kept
+ * in `requests`.
+ */
+export function createScriptedLlmProvider(
+  script: (string | ((request: LlmRequest) => string))[]
+): LlmProvider & { requests: LlmRequest[] } {
+  const replies = [...script];
+  const requests: LlmRequest[] = [];
+
+  return {
+    name: 'scripted',
+    requests,
+
+    async complete(request) {
+      requests.push(request);
+      const reply = replies.shift();
+      if (reply === undefined) {
+        throw new Error(`Scripted LLM provider has no reply left for the ${request.task} task`);
+      }
+      return typeof reply === 'function' ? reply(request) : reply;
+    },
+  };
+}
+
+let llmProvider: LlmProvider | null = null;
+
+/**
+ * Get the configured LLM provider (LLM_PROVIDER=openai|compatible, default openai).
+ * The compatible provider talks to LLM_BASE_URL with LLM_API_KEY and asks for
+ * JSON according to LLM_JSON_MODE (json_schema, json_object or prompt).
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!llmProvider) {
+    llmProvider =
+      process.env.LLM_PROVIDER === 'compatible'
+        ? createOpenAiCompatibleProvider({
+            baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+            apiKey: process.env.LLM_API_KEY,
+            jsonMode: (process.env.LLM_JSON_MODE as JsonMode) || 'json_object',
+          })
+        : createOpenAiProvider();
+    console.log(`🧠 Using ${llmProvider.name} LLM provider`);
+  }
+  return llmProvider;
+}
+
+// Function to replace the LLM provider (e.g. with a scripted one)
+export function setLlmProvider(provider: LlmProvider): void {
+  llmProvider = provider;
+}
@@ -0,0 +1,251 @@
+import { Client, MessageCreateOptions } from 'discord.js';
+import { BookedMeeting, listBookedMeetings } from './booking';
+import { getGuildConfig } from './guild-config';
+import { createPersistentMap } from './storage';
+import { buildReminderMessage } from '../commands/reminders';
+
+// Where reminders are sent: a DM to every attendee, or the channel the meeting was booked in
+export type ReminderDelivery = 'dm' | 'channel';
+export const REMINDER_DELIVERIES: ReminderDelivery[] = ['dm', 'channel'];
+
+// How an attendee answered a reminder
+export type ReminderResponse = 'joining' | 'late' | 'declined';
+
+// Reminders already sent for a meeting, and the answers they got
+interface ReminderState {
+  sequence: number; // Booking sequence the state belongs to; a reschedule starts over
+  sent: number[]; // Offsets in minutes
+  responses: Record<string, ReminderResponse>; // Per Discord user ID
+}
+
+export interface ReminderSettings {
+  offsets: number[]; // Minutes before the start, largest first
+  delivery: ReminderDelivery;
+}
+
+// Reminders can be sent at most a week ahead
+const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+const OFFSET_UNITS: Record<string, number> = { d: 24 * 60, h: 60, m: 1 };
+
+/**
+ * Parse reminder offsets such as "1d, 2h, 10m" into minutes, largest first.
+ * "off" or "none" turns reminders off.
+ */
+export function parseReminderOffsets(input: string): number[] {
+  const value = input.trim().toLowerCase();
+  if (value === 'off' || value === 'none') return [];
+
+  const offsets = value.split(/[\s,]+/).filter((token) => token).map((token) => {
+    const match = token.match(/^(\d+)([dhm])$/);
+    const minutes = match ? parseInt(match[1], 10) * OFFSET_UNITS[match[2]] : NaN;
+    if (!(minutes > 0) || minutes > MAX_REMINDER_OFFSET_MINUTES) {
+      throw new Error(`"${token}" is not a valid reminder time. Use values like 1d, 2h or 10m, up to 7d.`);
+    }
+    return minutes;
+  });
+  if (offsets.length === 0) {
+    throw new Error('List at least one reminder time, e.g. "1d, 10m", or "off".');
+  }
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+// Function to describe a reminder offset, e.g. "1 day" or "10 minutes"
+export function formatReminderOffset(minutes: number): string {
+  const [amount, unit] =
+    minutes % (24 * 60) === 0
+      ? [minutes / (24 * 60), 'day']
+      : minutes % 60 === 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+const DEFAULT_REMINDER_OFFSETS = '1d,10m';
+
+// Reminder state is kept a little longer than the earliest reminder can be sent
+const reminderStates = createPersistentMap<ReminderState>('meeting-reminders', {
+  ttlMs: (MAX_REMINDER_OFFSET_MINUTES + 24 * 60) * 60 * 1000,
+});
+
+// Function to get the offsets used when a guild has not chosen its own (MEETING_REMINDERS)
+function getDefaultReminderOffsets(): number[] {
+  try {
+    return parseReminderOffsets(process.env.MEETING_REMINDERS || DEFAULT_REMINDER_OFFSETS);
+  } catch (error) {
+    console.warn('⚠️ Ignoring MEETING_REMINDERS:', error);
+    return parseReminderOffsets(DEFAULT_REMINDER_OFFSETS);
+  }
+}
+
+// Function to get a guild's reminder settings, falling back to MEETING_REMINDERS and REMINDER_DELIVERY
+export function getReminderSettings(guildId: string | undefined): ReminderSettings {
+  const config = getGuildConfig(guildId);
+  return {
+    offsets: config.reminderOffsets || getDefaultReminderOffsets(),
+    delivery:
+      config.reminderDelivery || (process.env.REMINDER_DELIVERY === 'channel' ? 'channel' : 'dm'),
+  };
+}
+
+/**
+ * Reminder state for the meeting's current booking. A new or rescheduled
+ * booking starts with every reminder that is already due marked as sent, so
+ * booking a meeting for this afternoon does not send the "1 day before" one.
+ */
+function getReminderState(meeting: BookedMeeting, offsets: number[], now: number): ReminderState {
+  const state = reminderStates.get(meeting.eventId);
+  if (state?.sequence === meeting.sequence) return state;
+  const startMs = meeting.request.slot.start.getTime();
+  return {
+    sequence: meeting.sequence,
+    sent: offsets.filter((offset) => startMs - offset * 60 * 1000 <= now),
+    responses: {},
+  };
+}
+
+/**
+ * Find meetings with a reminder due and mark those reminders as sent. When
+ * several came due while the bot was offline, only the latest is returned.
+ */
+export function takeDueReminders(now = new Date()): { meeting: BookedMeeting; offsetMinutes: number }[] {
+  const due: { meeting: BookedMeeting; offsetMinutes: number }[] = [];
+
+  for (const meeting of listBookedMeetings()) {
+    const startMs = meeting.request.slot.start.getTime();
+    if (meeting.status !== 'confirmed' || startMs <= now.getTime()) continue;
+
+    const { offsets } = getReminderSettings(meeting.guildId);
+    const fresh = reminderStates.get(meeting.eventId)?.sequence !== meeting.sequence;
+    const state = getReminderState(meeting, offsets, now.getTime());
+    const dueOffsets = offsets.filter(
+      (offset) => !state.sent.includes(offset) && startMs - offset * 60 * 1000 <= now.getTime()
+    );
+    if (dueOffsets.length === 0 && !fresh) continue;
+
+    state.sent.push(...dueOffsets);
+    reminderStates.set(meeting.eventId, state);
+    if (dueOffsets.length > 0) {
+      due.push({ meeting, offsetMinutes: Math.min(...dueOffsets) });
+    }
+  }
+
+  return due;
+}
+
+// Function to get the answers to a meeting's reminders
+export function getReminderResponses(meeting: BookedMeeting): Record<string, ReminderResponse> {
+  const state = reminderStates.get(meeting.eventId);
+  return state?.sequence === meeting.sequence ? state.responses : {};
+}
+
+/**
+ * Record an attendee's answer to a reminder. Returns false when they had
+ * already given the same answer.
+ */
+export function recordReminderResponse(
+  meeting: BookedMeeting,
+  userId: string,
+  response: ReminderResponse
+): boolean {
+  const state = getReminderState(meeting, getReminderSettings(meeting.guildId).offsets, Date.now());
+  if (state.responses[userId] === response) return false;
+  state.responses[userId] = response;
+  reminderStates.set(meeting.eventId, state);
+  console.log(`⏰ ${userId} answered the reminder for ${meeting.eventId}: ${response}`);
+  return true;
+}
+
+// Discord users who get a reminder: the organizer and every attendee on Discord
+export function reminderRecipients(meeting: BookedMeeting): string[] {
+  const attendeeIds = meeting.request.attendees
+    .map((attendee) => attendee.discordId)
+    .filter((id): id is string => !!id);
+  return [...new Set([meeting.organizerId, ...attendeeIds])];
+}
+
+export interface ReminderScheduler {
+  // Send every reminder that is due now
+  check(): Promise<void>;
+  stop(): void;
+}
+
+/**
+ * Create the scheduler that sends meeting reminders, checking every
+ * REMINDER_CHECK_INTERVAL_MS (default a minute). Sent reminders are stored,
+ * so a restart neither repeats nor loses them.
+ */
+export function createReminderScheduler(
+  client: Client,
+  intervalMs = parseInt(process.env.REMINDER_CHECK_INTERVAL_MS || '60000', 10)
+): ReminderScheduler {
+  let checking = false;
+
+  // Post in the booking channel, falling back to the guild's output channel
+  async function sendToChannel(meeting: BookedMeeting, message: MessageCreateOptions): Promise<boolean> {
+    const channelId = meeting.channelId || getGuildConfig(meeting.guildId).outputChannelId;
+    const channel = channelId ? await client.channels.fetch(channelId).catch(() => null) : null;
+    if (!channel?.isSendable()) return false;
+
+    const mentions = reminderRecipients(meeting).map((id) => `<@${id}>`).join(' ');
+    await channel.send({ ...message, content: `${mentions}\n${message.content}` });
+    return true;
+  }
+
+  async function sendToAttendees(meeting: BookedMeeting, message: MessageCreateOptions): Promise<void> {
+    for (const userId of reminderRecipients(meeting)) {
+      try {
+        const user = await client.users.fetch(userId);
+        await user.send(message);
+      } catch (error) {
+        console.warn(`⚠️ Could not DM the reminder for ${meeting.eventId} to ${userId}:`, error);
+      }
+    }
+  }
+
+  async function send(meeting: BookedMeeting, offsetMinutes: number): Promise<void> {
+    const message = buildReminderMessage(meeting, getReminderResponses(meeting));
+    const { delivery } = getReminderSettings(meeting.guildId);
+    if (delivery === 'channel' && (await sendToChannel(meeting, message))) {
+      console.log(`⏰ Posted the ${formatReminderOffset(offsetMinutes)} reminder for ${meeting.eventId}`);
+      return;
+    }
+    await sendToAttendees(meeting, message);
+    console.log(`⏰ Sent the ${formatReminderOffset(offsetMinutes)} reminder for ${meeting.eventId} by DM`);
+  }
+
+  async function check(): Promise<void> {
+    // Skip a tick while the previous one is still sending
+    if (checking) return;
+    checking = true;
+    try {
+      for (const { meeting, offsetMinutes } of takeDueReminders()) {
+        await send(meeting, offsetMinutes).catch((error) =>
+          console.error(`Error sending the reminder for ${meeting.eventId}:`, error)
+        );
+      }
+    } finally {
+      checking = false;
+    }
+  }
+
+  const timer = setInterval(() => void check(), intervalMs);
+  void check();
+
+  return {
+    check,
+    stop: () => clearInterval(timer),
+  };
+}
+
+let reminderScheduler: ReminderScheduler | null = null;
+
+// Function to get the reminder scheduler, once the client is ready
+export function getReminderScheduler(): ReminderScheduler | null {
+  return reminderScheduler;
+}
+
+// Function to set the reminder scheduler
+export function setReminderScheduler(scheduler: ReminderScheduler): void {
+  reminderScheduler = scheduler;
+}
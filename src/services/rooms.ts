@@ -0,0 +1,159 @@
+import { Interval, overlaps } from '../utils/intervals';
+import type { ValidationResult } from '../utils/validators';
+import { createPersistentMap } from './storage';
+
+// A bookable meeting room of a guild
+export interface Room {
+  id: string; // Guild ID and lower-case name, stable across edits
+  name: string;
+  capacity: number;
+  location?: string;
+  equipment: string[];
+}
+
+// A time a room is held for a booked meeting
+export interface RoomReservation extends Interval {
+  meetingUid: string; // iCalendar UID of the meeting, stable across reschedules
+}
+
+// Typing this as the room name lets /schedule pick any free room that fits
+export const ANY_ROOM = 'any';
+
+const MAX_ROOM_NAME_LENGTH = 50;
+
+// Rooms per guild ID
+const guildRooms = createPersistentMap<Room[]>('rooms');
+
+// Reservations per room ID
+const roomReservations = createPersistentMap<RoomReservation[]>('room-reservations');
+
+function roomId(guildId: string, name: string): string {
+  return `${guildId}:${name.trim().toLowerCase()}`;
+}
+
+// Function to list a guild's rooms, smallest first
+export function listRooms(guildId: string | undefined): Room[] {
+  const rooms = (guildId && guildRooms.get(guildId)) || [];
+  return [...rooms].sort((a, b) => a.capacity - b.capacity || a.name.localeCompare(b.name));
+}
+
+// Function to find a guild's room by name, ignoring case
+export function findRoom(guildId: string | undefined, name: string): Room | undefined {
+  if (!guildId) return undefined;
+  const id = roomId(guildId, name);
+  return listRooms(guildId).find((room) => room.id === id);
+}
+
+// Function to get a room by its ID
+export function getRoom(id: string): Room | undefined {
+  const guildId = id.substring(0, id.indexOf(':'));
+  return listRooms(guildId).find((room) => room.id === id);
+}
+
+/**
+ * Add a room to the guild, or replace the room with the same name
+ */
+export function addRoom(guildId: string, room: Omit<Room, 'id'>): Room {
+  const name = room.name.trim();
+  if (!name || name.length > MAX_ROOM_NAME_LENGTH) {
+    throw new Error(`Room names must be 1-${MAX_ROOM_NAME_LENGTH} characters.`);
+  }
+  if (name.toLowerCase() === ANY_ROOM) {
+    throw new Error(`"${ANY_ROOM}" is reserved for picking any free room.`);
+  }
+  if (!Number.isInteger(room.capacity) || room.capacity < 1) {
+    throw new Error('Room capacity must be at least 1.');
+  }
+
+  const added: Room = { ...room, id: roomId(guildId, name), name };
+  guildRooms.set(guildId, [...listRooms(guildId).filter((other) => other.id !== added.id), added]);
+  console.log(`🏢 Saved room "${name}" for guild ${guildId} (capacity ${room.capacity})`);
+  return added;
+}
+
+/**
+ * Remove a room from the guild. Meetings already booked in it keep their location.
+ */
+export function removeRoom(guildId: string, name: string): Room | undefined {
+  const room = findRoom(guildId, name);
+  if (!room) return undefined;
+  guildRooms.set(guildId, listRooms(guildId).filter((other) => other.id !== room.id));
+  roomReservations.delete(room.id);
+  console.log(`🏢 Removed room "${room.name}" from guild ${guildId}`);
+  return room;
+}
+
+// Function to get the times a room is already held, for the slot search
+export function getRoomBusy(id: string): Interval[] {
+  return (roomReservations.get(id) || []).map(({ start, end }) => ({ start, end }));
+}
+
+/**
+ * Hold a room for a meeting, replacing the meeting's previous hold. Throws when
+ * another meeting already holds the room at that time.
+ */
+export function reserveRoom(id: string, slot: Interval, meetingUid: string): void {
+  const now = Date.now();
+  const others = (roomReservations.get(id) || []).filter(
+    (reservation) => reservation.meetingUid !== meetingUid && reservation.end.getTime() > now
+  );
+  if (others.some((reservation) => overlaps(reservation, slot))) {
+    throw new Error(`${getRoom(id)?.name || 'The room'} is already booked at that time.`);
+  }
+  roomReservations.set(id, [...others, { meetingUid, start: slot.start, end: slot.end }]);
+}
+
+// Function to free a room held for a meeting
+export function releaseRoom(id: string, meetingUid: string): void {
+  const reservations = roomReservations.get(id);
+  if (!reservations) return;
+  roomReservations.set(
+    id,
+    reservations.filter((reservation) => reservation.meetingUid !== meetingUid)
+  );
+}
+
+/**
+ * Turn the room a user asked for into the rooms the meeting can use: none when
+ * empty, every room that fits for "any", or the named room if it is big enough
+ */
+export function selectRooms(
+  guildId: string | undefined,
+  input: string,
+  attendeeCount: number
+): ValidationResult<Room[]> {
+  const name = input.trim();
+  if (!name) return { ok: true, value: [] };
+
+  const rooms = listRooms(guildId);
+  if (rooms.length === 0) {
+    return { ok: false, error: 'No meeting rooms are set up yet. Add one with /rooms add.' };
+  }
+
+  if (name.toLowerCase() === ANY_ROOM) {
+    const fitting = rooms.filter((room) => room.capacity >= attendeeCount);
+    return fitting.length > 0
+      ? { ok: true, value: fitting }
+      : { ok: false, error: `No room fits ${attendeeCount} attendees.` };
+  }
+
+  const room = findRoom(guildId, name);
+  if (!room) {
+    return {
+      ok: false,
+      error: `There is no room called "${name}". Rooms: ${rooms.map((other) => other.name).join(', ')}.`,
+    };
+  }
+  if (room.capacity < attendeeCount) {
+    return {
+      ok: false,
+      error: `${room.name} only fits ${room.capacity} people, but the meeting has ${attendeeCount} attendees.`,
+    };
+  }
+  return { ok: true, value: [room] };
+}
+
+// Function to describe a room for calendar locations
+export function roomLocation(room: Room): string {
+  return room.location ? `${room.name} (${room.location})` : room.name;
+}
@@ -0,0 +1,345 @@
+import { Interval, overlaps, padIntervals, subtractIntervals } from '../utils/intervals';
+import { TimeSlot } from '../utils/parseHelpers';
+import { getZonedParts, parseTimeOfDay, zonedTimeToUtc } from '../utils/timezone';
+
+// A time-of-day window such as { start: '13:00', end: '17:00' }
+export interface TimeOfDayWindow {
+  start: string;
+  end: string;
+}
+
+// Working hours applied to every day of the range
+export interface WorkingHours extends TimeOfDayWindow {
+  days: number[]; // 0 = Sunday
+}
+
+// Everything the solver needs to find free slots
+export interface SchedulingConstraints {
+  durationMinutes: number;
+  rangeStart: Date;
+  rangeEnd: Date;
+  timezone: string;
+  workingHours?: WorkingHours;
+  bufferMinutes?: number; // Free time kept before and after every busy interval
+  stepMinutes?: number; // Granularity of candidate start times
+  preferredWindows?: TimeOfDayWindow[];
+  preferredDays?: number[];
+  avoidWindows?: TimeOfDayWindow[];
+  notBefore?: Date; // Defaults to now - never suggest slots in the past
+  maxResults?: number;
+  maxPerDay?: number;
+  rooms?: RoomAvailability[]; // Rooms the meeting can use, in order of preference
+  optionalBusy?: AttendeeBusy[]; // Optional attendees - slots they can make are ranked higher
+  excluded?: Interval[]; // Slots already offered that must not be suggested again
+}
+
+// Solver inputs kept with a proposal so more options can be computed later
+export interface SlotSearch {
+  required: AttendeeBusy[];
+  optional: AttendeeBusy[];
+  constraints: SchedulingConstraints;
+}
+
+// A room the meeting can use and the times it is already held
+export interface RoomAvailability {
+  name: string;
+  busy: Interval[];
+}
+
+// Busy intervals of one attendee, labelled for conflict reports
+export interface AttendeeBusy {
+  label: string;
+  busy: Interval[];
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '18:00',
+  days: [1, 2, 3, 4, 5],
+};
+const DEFAULT_BUFFER_MINUTES = 10;
+const DEFAULT_STEP_MINUTES = 15;
+const DEFAULT_MAX_RESULTS = 3;
+const DEFAULT_MAX_PER_DAY = 2;
+
+// Safety limit so a huge date range cannot blow up the candidate list
+const MAX_RANGE_DAYS = 62;
+
+interface Candidate extends Interval {
+  score: number;
+  room?: string;
+}
+
+// Minutes after midnight for a window, or null if the window is malformed
+function windowMinutes(window: TimeOfDayWindow): { start: number; end: number } | null {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+}
+
+// Fraction of the slot (by minutes of day) that falls inside any of the windows
+function windowCoverage(
+  slotStart: number,
+  slotEnd: number,
+  windows: TimeOfDayWindow[] | undefined
+): number {
+  if (!windows || windows.length === 0) return 0;
+  let covered = 0;
+  for (const window of windows) {
+    const minutes = windowMinutes(window);
+    if (!minutes) continue;
+    covered += Math.max(0, Math.min(slotEnd, minutes.end) - Math.max(slotStart, minutes.start));
+  }
+  return Math.min(1, covered / (slotEnd - slotStart));
+}
+
+// Score a candidate - higher is better
+function scoreCandidate(
+  candidate: Interval,
+  constraints: SchedulingConstraints,
+  rangeStartMs: number,
+  rangeLengthMs: number
+): number {
+  const parts = getZonedParts(candidate.start, constraints.timezone);
+  const startMinutes = parts.hour * 60 + parts.minute;
+  const endMinutes = startMinutes + constraints.durationMinutes;
+
+  let score = 0;
+  score += 3 * windowCoverage(startMinutes, endMinutes, constraints.preferredWindows);
+  score -= 4 * windowCoverage(startMinutes, endMinutes, constraints.avoidWindows);
+  if (constraints.preferredDays?.includes(parts.weekday)) {
+    score += 2;
+  }
+  // Prefer sooner slots, and round start times
+  score += 1 - (candidate.start.getTime() - rangeStartMs) / Math.max(rangeLengthMs, 1);
+  if (parts.minute === 0) {
+    score += 0.25;
+  } else if (parts.minute === 30) {
+    score += 0.1;
+  }
+  // Prefer slots more optional attendees can make
+  const optional = constraints.optionalBusy || [];
+  if (optional.length > 0) {
+    const available = optional.length - unavailableAttendees(candidate, optional).length;
+    score += 2 * (available / optional.length);
+  }
+  return score;
+}
+
+// Labels of the attendees who are busy during the interval
+function unavailableAttendees(interval: Interval, attendees: AttendeeBusy[]): string[] {
+  return attendees
+    .filter((attendee) => attendee.busy.some((busy) => overlaps(busy, interval)))
+    .map((attendee) => attendee.label);
+}
+
+// First room free for the whole interval: undefined when the meeting needs no
+// room, null when every room is taken
+function findFreeRoom(interval: Interval, rooms: RoomAvailability[] | undefined): string | undefined | null {
+  if (!rooms || rooms.length === 0) return undefined;
+  const room = rooms.find((option) => !option.busy.some((busy) => overlaps(busy, interval)));
+  return room ? room.name : null;
+}
+
+/**
+ * Working hours for an explicitly requested range: a part of the day such as
+ * "afternoon" replaces the usual hours, and a range with no working day in it
+ * (e.g. "this weekend") is searched on every day
+ */
+export function workingHoursForRange(
+  range: Interval,
+  timezone: string,
+  timeOfDay?: TimeOfDayWindow,
+  base: WorkingHours = DEFAULT_WORKING_HOURS
+): WorkingHours {
+  let hasWorkingDay = false;
+  for (let day = range.start; day.getTime() < range.end.getTime(); ) {
+    const parts = getZonedParts(day, timezone);
+    if (base.days.includes(parts.weekday)) {
+      hasWorkingDay = true;
+      break;
+    }
+    day = zonedTimeToUtc(parts.year, parts.month, parts.day + 1, 0, 0, timezone);
+  }
+
+  return {
+    start: timeOfDay?.start || base.start,
+    end: timeOfDay?.end || base.end,
+    days: hasWorkingDay ? base.days : [0, 1, 2, 3, 4, 5, 6],
+  };
+}
+
+/**
+ * Find free working-hour windows in the range after removing busy intervals
+ */
+export function findFreeWindows(
+  busy: Interval[],
+  constraints: SchedulingConstraints
+): Interval[] {
+  const workingHours = constraints.workingHours || DEFAULT_WORKING_HOURS;
+  const hours = windowMinutes(workingHours);
+  if (!hours) return [];
+
+  const notBefore = (constraints.notBefore || new Date()).getTime();
+  const rangeStart = Math.max(constraints.rangeStart.getTime(), notBefore);
+  const rangeEnd = constraints.rangeEnd.getTime();
+  if (rangeEnd <= rangeStart) return [];
+
+  const padded = padIntervals(busy, constraints.bufferMinutes ?? DEFAULT_BUFFER_MINUTES);
+  const free: Interval[] = [];
+
+  const first = getZonedParts(new Date(rangeStart), constraints.timezone);
+  for (let offset = 0; offset < MAX_RANGE_DAYS; offset++) {
+    const dayStart = zonedTimeToUtc(first.year, first.month, first.day + offset, 0, 0, constraints.timezone);
+    if (dayStart.getTime() >= rangeEnd) break;
+
+    const weekday = getZonedParts(dayStart, constraints.timezone).weekday;
+    if (!workingHours.days.includes(weekday)) continue;
+
+    const workStart = zonedTimeToUtc(
+      first.year, first.month, first.day + offset,
+      Math.floor(hours.start / 60), hours.start % 60,
+      constraints.timezone
+    );
+    const workEnd = zonedTimeToUtc(
+      first.year, first.month, first.day + offset,
+      Math.floor(hours.end / 60), hours.end % 60,
+      constraints.timezone
+    );
+
+    const window = {
+      start: new Date(Math.max(workStart.getTime(), rangeStart)),
+      end: new Date(Math.min(workEnd.getTime(), rangeEnd)),
+    };
+    if (window.end.getTime() <= window.start.getTime()) continue;
+
+    free.push(...subtractIntervals(window, padded));
+  }
+
+  return free;
+}
+
+/**
+ * Find and rank free meeting slots that avoid every busy interval.
+ * Deterministic: the same busy data and constraints always give the same slots.
+ */
+export function findFreeSlots(
+  busy: Interval[],
+  constraints: SchedulingConstraints
+): TimeSlot[] {
+  const durationMs = constraints.durationMinutes * 60 * 1000;
+  const stepMs = (constraints.stepMinutes || DEFAULT_STEP_MINUTES) * 60 * 1000;
+  const rangeStartMs = constraints.rangeStart.getTime();
+  const rangeLengthMs = constraints.rangeEnd.getTime() - rangeStartMs;
+
+  // Generate candidates aligned to the step inside every free window
+  const candidates: Candidate[] = [];
+  for (const window of findFreeWindows(busy, constraints)) {
+    let start = Math.ceil(window.start.getTime() / stepMs) * stepMs;
+    while (start + durationMs <= window.end.getTime()) {
+      const candidate = { start: new Date(start), end: new Date(start + durationMs) };
+      start += stepMs;
+      const room = findFreeRoom(candidate, constraints.rooms);
+      if (room === null) continue;
+      candidates.push({
+        ...candidate,
+        room,
+        score: scoreCandidate(candidate, constraints, rangeStartMs, rangeLengthMs),
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+
+  // Pick the best candidates while spreading them over different days
+  const maxResults = constraints.maxResults || DEFAULT_MAX_RESULTS;
+  const maxPerDay = constraints.maxPerDay || DEFAULT_MAX_PER_DAY;
+  const picked: Candidate[] = [];
+  const perDay: Map<string, number> = new Map();
+
+  for (const candidate of candidates) {
+    if (picked.length >= maxResults) break;
+    const parts = getZonedParts(candidate.start, constraints.timezone);
+    const dayKey = `${parts.year}-${parts.month}-${parts.day}`;
+    if ((perDay.get(dayKey) || 0) >= maxPerDay) continue;
+    if (picked.some((slot) => overlaps(slot, candidate))) continue;
+    if (constraints.excluded?.some((slot) => overlaps(slot, candidate))) continue;
+
+    picked.push(candidate);
+    perDay.set(dayKey, (perDay.get(dayKey) || 0) + 1);
+  }
+
+  const bestScore = picked.length > 0 ? picked[0].score : 0;
+  return picked.map((candidate) => ({
+    start: candidate.start,
+    end: candidate.end,
+    timezone: constraints.timezone,
+    room: candidate.room,
+    unavailable: constraints.optionalBusy
+      ? unavailableAttendees(candidate, constraints.optionalBusy)
+      : undefined,
+    confidence:
+      bestScore > 0
+        ? Math.round(Math.max(0.1, Math.min(1, candidate.score / bestScore)) * 100) / 100
+        : 0.5,
+  }));
+}
+
+/**
+ * Find slots every required attendee can make, ranking slots that also suit
+ * optional attendees higher
+ */
+export function findSlotsForAttendees(
+  required: AttendeeBusy[],
+  optional: AttendeeBusy[],
+  constraints: SchedulingConstraints
+): TimeSlot[] {
+  const busy = required.flatMap((attendee) => attendee.busy);
+  return findFreeSlots(busy, { ...constraints, optionalBusy: optional });
+}
+
+/**
+ * Explain why no slot fits all required attendees: returns the attendees whose
+ * calendar blocks the meeting. An attendee is reported when they have no free
+ * slot on their own, or when dropping them alone would make a slot available.
+ * When everyone is free but no room is, the rooms are reported instead.
+ */
+export function findConflictingAttendees(
+  required: AttendeeBusy[],
+  constraints: SchedulingConstraints
+): string[] {
+  const single = { ...constraints, maxResults: 1, optionalBusy: undefined, rooms: undefined };
+  const conflicts: string[] = [];
+
+  for (const attendee of required) {
+    if (findFreeSlots(attendee.busy, single).length === 0) {
+      conflicts.push(attendee.label);
+      continue;
+    }
+    const others = required
+      .filter((other) => other !== attendee)
+      .flatMap((other) => other.busy);
+    if (required.length > 1 && findFreeSlots(others, single).length > 0) {
+      conflicts.push(attendee.label);
+    }
+  }
+
+  const rooms = constraints.rooms || [];
+  const everyoneFree = findFreeSlots(required.flatMap((attendee) => attendee.busy), single).length > 0;
+  if (conflicts.length === 0 && rooms.length > 0 && everyoneFree) {
+    conflicts.push(...rooms.map((room) => room.name));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Re-run a previous search, skipping every slot that was already offered
+ */
+export function findMoreSlots(search: SlotSearch, offered: Interval[]): TimeSlot[] {
+  return findSlotsForAttendees(search.required, search.optional, {
+    ...search.constraints,
+    excluded: [...(search.constraints.excluded || []), ...offered],
+  });
+}
@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+
+// Bump when the stored layout changes and add a migration below
+export const STORAGE_SCHEMA_VERSION = 5;
+
+// A single stored value with optional expiry (epoch ms)
+interface StoredEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+// On-disk layout of the JSON store
+interface StoreFile {
+  version: number;
+  collections: Record<string, Record<string, StoredEntry>>;
+}
+
+// Migrations keyed by the version they upgrade from
+const migrations: Record<number, (file: StoreFile) => StoreFile> = {
+  // Version 0 files were written before versioning and share the same layout
+  0: (file) => ({ ...file, version: 1 }),
+  // Free-text schedules were replaced by structured availability and cannot be converted
+  1: (file) => {
+    const { schedules, ...collections } = file.collections;
+    return { version: 2, collections };
+  },
+  // Bookings gained an iCalendar UID, SEQUENCE and status for .ics updates
+  2: (file) => {
+    const bookings = file.collections.bookings || {};
+    for (const [eventId, entry] of Object.entries(bookings)) {
+      const meeting = entry.value as Record<string, unknown>;
+      entry.value = {
+        uid: `${eventId}@discord-scheduler-assistant`,
+        sequence: 0,
+        status: 'confirmed',
+        ...meeting,
+      };
+    }
+    return { ...file, version: 3 };
+  },
+  // Conversations became scheduling dialogs; old ones restart collecting details
+  3: (file) => {
+    const conversations = file.collections.conversations || {};
+    for (const entry of Object.values(conversations)) {
+      const { transcript = '', meetingTimes = [] } = entry.value as {
+        transcript?: string;
+        meetingTimes?: unknown[];
+      };
+      entry.value = {
+        state: 'collecting',
+        slots: {},
+        options: [],
+        offered: meetingTimes,
+        transcript: transcript
+          .split('\n')
+          .filter((line) => (line && !line.startsWith('[')) || line.startsWith('[Text]: '))
+          .map((line) => line.replace(/^\[Text\]: /, '')),
+      };
+    }
+    return { ...file, version: 4 };
+  },
+  // Dialogs became sessions with an organizer and speaker-tagged lines; old ones belong to their user
+  4: (file) => {
+    const conversations = file.collections.conversations || {};
+    for (const [userId, entry] of Object.entries(conversations)) {
+      const dialog = entry.value as Record<string, unknown> & { transcript?: string[] };
+      entry.value = {
+        ...dialog,
+        organizerId: userId,
+        participants: {},
+        transcript: (dialog.transcript || []).map((text) => ({ speakerId: userId, speaker: '', text })),
+      };
+    }
+    return { ...file, version: 5 };
+  },
+};
+
+// Key/value storage grouped into named collections
+export interface StorageBackend {
+  name: string;
+  get<T>(collection: string, key: string): T | undefined;
+  set<T>(collection: string, key: string, value: T, ttlMs?: number): void;
+  delete(collection: string, key: string): void;
+  entries<T>(collection: string): [string, T][];
+  clear(collection: string): void;
+  flush(): void;
+}
+
+// Map-like view of one collection
+export interface PersistentMap<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): PersistentMap<V>;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  entries(): [string, V][];
+  values(): V[];
+  clear(): void;
+}
+
+const WRITE_DEBOUNCE_MS = 500;
+
+// Dates are tagged so they survive the JSON round trip
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  const original = this[key];
+  return original instanceof Date ? { $date: original.toISOString() } : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  if (value && typeof value === 'object' && '$date' in value && typeof value.$date === 'string') {
+    return new Date(value.$date);
+  }
+  return value;
+}
+
+function isExpired(entry: StoredEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+// Upgrade an older store file to the current schema version
+function migrate(file: Omit<StoreFile, 'version'> & { version?: number }): StoreFile {
+  // Files written before versioning have no version at all
+  let current: StoreFile = { ...file, version: file.version ?? 0 };
+  while (current.version < STORAGE_SCHEMA_VERSION) {
+    const migration = migrations[current.version];
+    if (!migration) {
+      throw new Error(`No storage migration from version ${current.version}`);
+    }
+    current = migration(current);
+    console.log(`🗄️ Migrated storage to version ${current.version}`);
+  }
+  if (current.version > STORAGE_SCHEMA_VERSION) {
+    throw new Error(
+      `Storage file version ${current.version} is newer than supported version ${STORAGE_SCHEMA_VERSION}`
+    );
+  }
+  return current;
+}
+
+// Shared implementation over a collections object; onChange runs after every write
+function createStore(
+  name: string,
+  collections: StoreFile['collections'],
+  onChange: () => void,
+  flush: () => void
+): StorageBackend {
+  return {
+    name,
+
+    get<T>(collection: string, key: string) {
+      const entry = collections[collection]?.[key];
+      if (!entry) return undefined;
+      if (isExpired(entry)) {
+        delete collections[collection][key];
+        onChange();
+        return undefined;
+      }
+      return entry.value as T;
+    },
+
+    set<T>(collection: string, key: string, value: T, ttlMs?: number) {
+      collections[collection] = collections[collection] || {};
+      collections[collection][key] = {
+        value,
+        expiresAt: ttlMs ? Date.now() + ttlMs : undefined,
+      };
+      onChange();
+    },
+
+    delete(collection: string, key: string) {
+      if (collections[collection]?.[key]) {
+        delete collections[collection][key];
+        onChange();
+      }
+    },
+
+    entries<T>(collection: string) {
+      const now = Date.now();
+      return Object.entries(collections[collection] || {})
+        .filter(([, entry]) => !isExpired(entry, now))
+        .map(([key, entry]) => [key, entry.value as T] as [string, T]);
+    },
+
+    clear(collection: string) {
+      delete collections[collection];
+      onChange();
+    },
+
+    flush,
+  };
+}
+
+/**
+ * Storage backend that keeps everything in memory. Nothing survives a restart.
+ */
+export function createMemoryStorage(): StorageBackend {
+  return createStore('memory', {}, () => {}, () => {});
+}
+
+/**
+ * Storage backend persisted to a single JSON file. Writes are debounced and
+ * done atomically (write to a temp file, then rename).
+ */
+export function createJsonFileStorage(filePath: string): StorageBackend {
+  let collections: StoreFile['collections'] = {};
+  let writeTimer: NodeJS.Timeout | null = null;
+
+  if (fs.existsSync(filePath)) {
+    const file = migrate(JSON.parse(fs.readFileSync(filePath, 'utf8'), reviver));
+    const now = Date.now();
+    // Drop expired entries while loading
+    for (const entries of Object.values(file.collections)) {
+      for (const [key, entry] of Object.entries(entries)) {
+        if (isExpired(entry, now)) delete entries[key];
+      }
+    }
+    collections = file.collections;
+    console.log(`🗄️ Loaded storage from ${filePath}`);
+  }
+
+  const flush = () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+    const file: StoreFile = { version: STORAGE_SCHEMA_VERSION, collections };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, replacer));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const scheduleWrite = () => {
+    if (writeTimer) return;
+    writeTimer = setTimeout(() => {
+      try {
+        flush();
+      } catch (error) {
+        console.error('❌ Failed to write storage file:', error);
+      }
+    }, WRITE_DEBOUNCE_MS);
+  };
+
+  return createStore('json', collections, scheduleWrite, flush);
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend (STORAGE_BACKEND=json|memory, default json).
+ * The JSON file lives at STORAGE_PATH (default ./data/store.json).
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const backend =
+      process.env.STORAGE_BACKEND === 'memory'
+        ? createMemoryStorage()
+        : createJsonFileStorage(process.env.STORAGE_PATH || './data/store.json');
+    storage = backend;
+    console.log(`🗄️ Using ${backend.name} storage`);
+
+    // Write pending changes before the process exits
+    process.on('exit', () => {
+      try {
+        backend.flush();
+      } catch (error) {
+        console.error('❌ Failed to flush storage on exit:', error);
+      }
+    });
+  }
+  return storage;
+}
+
+// Function to replace the storage backend (e.g. with an in-memory one)
+export function setStorage(backend: StorageBackend): void {
+  storage = backend;
+}
+
+/**
+ * Create a Map-like view of a storage collection. Values must be written back
+ * with `set` after being mutated for the change to persist.
+ */
+export function createPersistentMap<V>(
+  collection: string,
+  options: { ttlMs?: number } = {}
+): PersistentMap<V> {
+  const map: PersistentMap<V> = {
+    get: (key) => getStorage().get<V>(collection, key),
+    set: (key, value) => {
+      getStorage().set(collection, key, value, options.ttlMs);
+      return map;
+    },
+    has: (key) => getStorage().get<V>(collection, key) !== undefined,
+    delete: (key) => {
+      const existed = getStorage().get<V>(collection, key) !== undefined;
+      getStorage().delete(collection, key);
+      return existed;
+    },
+    entries: () => getStorage().entries<V>(collection),
+    values: () => getStorage().entries<V>(collection).map(([, value]) => value),
+    clear: () => getStorage().clear(collection),
+  };
+  return map;
+}
@@ -0,0 +1,353 @@
+import OpenAI, { toFile } from 'openai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+
+// A stretch of speech with its start and end in seconds from the start of the audio
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A single word with its timing in seconds
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Result of transcribing one audio file
+export interface Transcription {
+  text: string;
+  language?: string; // ISO 639-1 code when the engine reports it
+  duration?: number; // Seconds
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+// Audio to transcribe: a file path, or in-memory data whose file name tells the format
+export type AudioInput = string | { data: Buffer | Readable; filename: string };
+
+export interface TranscribeOptions {
+  language?: string; // Hint, e.g. "en"; detected when omitted
+  prompt?: string; // Vocabulary hint such as names and places
+}
+
+// Backend that turns recorded speech into text
+export interface SttProvider {
+  name: string;
+  transcribe(audio: AudioInput, options?: TranscribeOptions): Promise<Transcription>;
+}
+
+const MAX_RATE_LIMIT_ATTEMPTS = 2;
+
+// Whisper reports language names ("english"), the rest of the bot uses codes
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  italian: 'it',
+  portuguese: 'pt',
+  dutch: 'nl',
+  polish: 'pl',
+  russian: 'ru',
+  ukrainian: 'uk',
+  japanese: 'ja',
+  chinese: 'zh',
+  korean: 'ko',
+  vietnamese: 'vi',
+  thai: 'th',
+  indonesian: 'id',
+  turkish: 'tr',
+  arabic: 'ar',
+  hindi: 'hi',
+};
+
+function toLanguageCode(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  const lower = language.toLowerCase();
+  return LANGUAGE_CODES[lower] || lower;
+}
+
+// File name of an audio input, used to pick fixtures and tell the format
+export function audioInputName(audio: AudioInput): string {
+  return typeof audio === 'string' ? path.basename(audio) : audio.filename;
+}
+
+// Read an in-memory input fully, so it can be sent again on retry
+async function readAudioInput(audio: AudioInput): Promise<AudioInput> {
+  if (typeof audio === 'string' || Buffer.isBuffer(audio.data)) return audio;
+  const chunks: Buffer[] = [];
+  for await (const chunk of audio.data) chunks.push(Buffer.from(chunk));
+  return { data: Buffer.concat(chunks), filename: audio.filename };
+}
+
+// Build a transcription from plain text, e.g. for fixtures without timings
+export function textTranscription(text: string, language?: string): Transcription {
+  return { text: text.trim(), language, segments: [], words: [] };
+}
+
+/**
+ * Speech-to-text with the OpenAI transcription API (OPENAI_API_KEY).
+ * The model defaults to whisper-1 and can be changed with STT_OPENAI_MODEL.
+ */
+export function createOpenAiSttProvider(): SttProvider {
+  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const model = process.env.STT_OPENAI_MODEL || 'whisper-1';
+
+  return {
+    name: 'openai',
+
+    async transcribe(input, options = {}) {
+      const audio = await readAudioInput(input);
+      let attempts = 0;
+
+      while (true) {
+        try {
+          const result = await openai.audio.transcriptions.create({
+            file:
+              typeof audio === 'string'
+                ? fs.createReadStream(audio)
+                : await toFile(audio.data as Buffer, audio.filename),
+            model,
+            language: options.language,
+            prompt: options.prompt,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['word', 'segment'],
+          });
+
+          return {
+            text: result.text.trim(),
+            language: toLanguageCode(result.language),
+            duration: result.duration,
+            segments: (result.segments || []).map((segment) => ({
+              start: segment.start,
+              end: segment.end,
+              text: segment.text.trim(),
+            })),
+            words: (result.words || []).map((word) => ({
+              word: word.word,
+              start: word.start,
+              end: word.end,
+            })),
+          };
+        } catch (error: any) {
+          if (error.status !== 429 || attempts >= MAX_RATE_LIMIT_ATTEMPTS) {
+            console.error('❌ Transcription failed:', error.message);
+            throw error;
+          }
+          attempts++;
+          const delay = Math.pow(2, attempts) * 1000;
+          console.warn(
+            `Rate limited. Retrying in ${delay / 1000}s... (${attempts}/${MAX_RATE_LIMIT_ATTEMPTS})`
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    },
+  };
+}
+
+// Run a command to completion, rejecting with its stderr on failure
+function runCommand(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  input?: Buffer | Readable
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: [input ? 'pipe' : 'ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr?.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${command}: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+    });
+
+    if (input && child.stdin) {
+      // The command may exit before reading everything; its exit code tells what happened
+      child.stdin.on('error', () => {});
+      if (Buffer.isBuffer(input)) child.stdin.end(input);
+      else input.pipe(child.stdin);
+    }
+  });
+}
+
+// Shape of the whisper.cpp --output-json-full file
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: { text: string; offsets: { from: number; to: number } }[];
+  }[];
+}
+
+/**
+ * Convert whisper.cpp JSON output. Tokens are sub-words: a token starting
+ * with a space begins a new word, special tokens look like "[_BEG_]".
+ */
+export function parseWhisperCppOutput(output: WhisperCppOutput): Transcription {
+  const segments: TranscriptSegment[] = [];
+  const words: TranscriptWord[] = [];
+
+  for (const entry of output.transcription || []) {
+    const text = entry.text.trim();
+    if (!text) continue;
+    segments.push({ start: entry.offsets.from / 1000, end: entry.offsets.to / 1000, text });
+
+    const firstWord = words.length;
+    for (const token of entry.tokens || []) {
+      if (/^\[_.*\]$/.test(token.text) || !token.text.trim()) continue;
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const last = words.length > firstWord ? words[words.length - 1] : undefined;
+      if (last && !/^\s/.test(token.text)) {
+        last.word += token.text;
+        last.end = end;
+      } else {
+        words.push({ word: token.text.trim(), start, end });
+      }
+    }
+  }
+
+  return {
+    text: segments.map((segment) => segment.text).join(' '),
+    language: toLanguageCode(output.result?.language),
+    duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+    segments,
+    words,
+  };
+}
+
+/**
+ * Local speech-to-text with whisper.cpp run as a subprocess. The audio is
+ * converted to 16 kHz mono WAV with ffmpeg first, as whisper.cpp requires;
+ * the temp files are removed afterwards.
+ * Configure with WHISPER_CPP_BIN (default whisper-cli), WHISPER_CPP_MODEL
+ * (path to a ggml model) and WHISPER_CPP_THREADS.
+ */
+export function createWhisperCppSttProvider(
+  options: { binary?: string; model?: string; threads?: number; timeoutMs?: number } = {}
+): SttProvider {
+  const binary = options.binary || process.env.WHISPER_CPP_BIN || 'whisper-cli';
+  const model = options.model || process.env.WHISPER_CPP_MODEL || 'models/ggml-base.en.bin';
+  const threads = options.threads || parseInt(process.env.WHISPER_CPP_THREADS || '4', 10);
+  const timeoutMs = options.timeoutMs || 120_000;
+
+  return {
+    name: 'whisper-cpp',
+
+    async transcribe(audio, transcribeOptions = {}) {
+      const base = path.join(os.tmpdir(), `stt-${randomUUID()}`);
+      const wavFile = `${base}.wav`;
+      const jsonFile = `${base}.json`;
+
+      try {
+        const source = typeof audio === 'string' ? audio : 'pipe:0';
+        await runCommand(
+          'ffmpeg',
+          ['-y', '-loglevel', 'error', '-i', source, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavFile],
+          timeoutMs,
+          typeof audio === 'string' ? undefined : audio.data
+        );
+
+        const args = ['-m', model, '-f', wavFile, '-t', String(threads), '-oj', '-ojf', '-of', base, '-np'];
+        args.push('-l', transcribeOptions.language || 'auto');
+        if (transcribeOptions.prompt) args.push('--prompt', transcribeOptions.prompt);
+        await runCommand(binary, args, timeoutMs);
+
+        const output = JSON.parse(await fs.promises.readFile(jsonFile, 'utf8')) as WhisperCppOutput;
+        return parseWhisperCppOutput(output);
+      } finally {
+        await Promise.all(
+          [wavFile, jsonFile].map((file) => fs.promises.rm(file, { force: true }))
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Fake speech-to-text for tests and CI. Fixtures are either keyed by audio
+ * file name or a list of transcripts returned in order. File paths without a
+ * fixture are looked up as a sidecar next to the audio (clip.mp3 -> clip.json
+ * with a Transcription, or clip.txt with plain text). The name of every
+ * transcribed input is kept in `calls`.
+ */
+export function createFixtureSttProvider(
+  fixtures: Record<string, string | Transcription> | (string | Transcription)[] = {}
+): SttProvider & { calls: string[] } {
+  const calls: string[] = [];
+  const queue = Array.isArray(fixtures) ? [...fixtures] : [];
+  const byName = Array.isArray(fixtures) ? {} : fixtures;
+
+  return {
+    name: 'fixture',
+    calls,
+
+    async transcribe(audio) {
+      const name = audioInputName(audio);
+      calls.push(name);
+      const fixture = byName[name] ?? queue.shift();
+      if (fixture !== undefined) {
+        return typeof fixture === 'string' ? textTranscription(fixture) : fixture;
+      }
+
+      if (typeof audio === 'string') {
+        const sidecar = audio.replace(/\.[^./\\]+$/, '');
+        if (fs.existsSync(`${sidecar}.json`)) {
+          const transcription = JSON.parse(await fs.promises.readFile(`${sidecar}.json`, 'utf8'));
+          return { segments: [], words: [], ...transcription } as Transcription;
+        }
+        if (fs.existsSync(`${sidecar}.txt`)) {
+          return textTranscription(await fs.promises.readFile(`${sidecar}.txt`, 'utf8'));
+        }
+      }
+      throw new Error(`No transcription fixture for ${name}`);
+    },
+  };
+}
+
+let sttProvider: SttProvider | null = null;
+
+/**
+ * Get the configured speech-to-text provider
+ * (STT_PROVIDER=openai|whisper-cpp|fixture, default openai)
+ */
+export function getSttProvider(): SttProvider {
+  if (!sttProvider) {
+    const name = process.env.STT_PROVIDER;
+    sttProvider =
+      name === 'whisper-cpp'
+        ? createWhisperCppSttProvider()
+        : name === 'fixture'
+        ? createFixtureSttProvider()
+        : createOpenAiSttProvider();
+    console.log(`👂 Using ${sttProvider.name} speech-to-text provider`);
+  }
+  return sttProvider;
+}
+
+// Function to replace the speech-to-text provider (e.g. with a fixture one)
+export function setSttProvider(provider: SttProvider): void {
+  sttProvider = provider;
+}
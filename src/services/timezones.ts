@@ -0,0 +1,53 @@
+import { createPersistentMap } from './storage';
+import { isValidTimezone } from '../utils/timezone';
+
+// Function to get the fallback when neither the user nor the guild has chosen a timezone
+export function getDefaultTimezone(): string {
+  return process.env.DEFAULT_TIMEZONE || 'Asia/Bangkok';
+}
+
+// IANA timezone per Discord user ID
+const userTimezones = createPersistentMap<string>('user-timezones');
+
+// Default IANA timezone per guild ID
+const guildTimezones = createPersistentMap<string>('guild-timezones');
+
+// Function to set a user's timezone
+export function setUserTimezone(userId: string, timezone: string): void {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`"${timezone}" is not a valid IANA timezone (e.g. Europe/Berlin).`);
+  }
+  userTimezones.set(userId, timezone);
+  console.log(`🌍 Set timezone for ${userId}: ${timezone}`);
+}
+
+// Function to set a guild's default timezone
+export function setGuildTimezone(guildId: string, timezone: string): void {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`"${timezone}" is not a valid IANA timezone (e.g. Europe/Berlin).`);
+  }
+  guildTimezones.set(guildId, timezone);
+  console.log(`🌍 Set default timezone for guild ${guildId}: ${timezone}`);
+}
+
+// Function to get a user's own timezone, if they chose one
+export function getUserTimezone(userId: string): string | undefined {
+  return userTimezones.get(userId);
+}
+
+// Function to get a guild's default timezone, if one was chosen
+export function getGuildTimezone(guildId: string): string | undefined {
+  return guildTimezones.get(guildId);
+}
+
+/**
+ * Resolve the timezone to use for a user: their own choice, then the guild
+ * default, then the DEFAULT_TIMEZONE env var
+ */
+export function resolveTimezone(userId?: string, guildId?: string): string {
+  return (
+    (userId && userTimezones.get(userId)) ||
+    (guildId && guildTimezones.get(guildId)) ||
+    getDefaultTimezone()
+  );
+}
@@ -0,0 +1,241 @@
+import OpenAI from 'openai';
+import path from 'path';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { createPersistentMap } from './storage';
+
+// How the bot should sound; unset fields fall back to the engine's defaults
+export interface VoiceSettings {
+  voice?: string; // Engine-specific voice name, e.g. "alloy", "en_US-lessac-medium" or "en-us"
+  speed?: number; // 1 is normal speed
+  language?: string; // ISO 639-1 code such as "en", used by engines that pick voices by language
+}
+
+// Synthesized audio ready to be played
+export interface SpeechAudio {
+  audio: Buffer;
+  format: 'mp3' | 'wav';
+}
+
+// Backend that turns text into speech
+export interface TtsProvider {
+  name: string;
+  synthesize(text: string, settings: VoiceSettings): Promise<SpeechAudio>;
+}
+
+export const MIN_SPEECH_SPEED = 0.5;
+export const MAX_SPEECH_SPEED = 2;
+
+// Voice settings per guild ID
+const guildVoiceSettings = createPersistentMap<VoiceSettings>('guild-voices');
+
+/**
+ * Text-to-speech with the OpenAI speech API (OPENAI_API_KEY). The model
+ * defaults to tts-1 (TTS_OPENAI_MODEL) and the voice to alloy. OpenAI picks
+ * the language from the text.
+ */
+export function createOpenAiTtsProvider(): TtsProvider {
+  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const model = process.env.TTS_OPENAI_MODEL || 'tts-1';
+
+  return {
+    name: 'openai',
+
+    async synthesize(text, settings) {
+      const response = await openai.audio.speech.create({
+        model,
+        voice: settings.voice || process.env.TTS_VOICE || 'alloy',
+        speed: settings.speed,
+        input: text,
+        response_format: 'mp3',
+      });
+      return { audio: Buffer.from(await response.arrayBuffer()), format: 'mp3' };
+    },
+  };
+}
+
+// Run a command with text on stdin and collect its stdout
+function runSynthesizer(
+  command: string,
+  args: string[],
+  input: string | undefined,
+  timeoutMs = 60_000
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${command}: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0 && chunks.length > 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+    });
+
+    child.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * Local text-to-speech with piper. The voice is the name of an .onnx model in
+ * PIPER_VOICES_DIR (default ./voices); PIPER_BIN overrides the binary. Piper
+ * voices are trained per language, so the language setting only matters
+ * through the voice choice.
+ */
+export function createPiperTtsProvider(
+  options: { binary?: string; voicesDir?: string; defaultVoice?: string } = {}
+): TtsProvider {
+  const binary = options.binary || process.env.PIPER_BIN || 'piper';
+  const voicesDir = options.voicesDir || process.env.PIPER_VOICES_DIR || './voices';
+  const defaultVoice = options.defaultVoice || process.env.TTS_VOICE || 'en_US-lessac-medium';
+
+  return {
+    name: 'piper',
+
+    async synthesize(text, settings) {
+      const voice = settings.voice || defaultVoice;
+      const args = ['--model', path.join(voicesDir, `${voice}.onnx`), '--output_file', '-'];
+      // Piper slows speech down with a longer length scale
+      if (settings.speed) args.push('--length_scale', String(1 / settings.speed));
+      return { audio: await runSynthesizer(binary, args, text), format: 'wav' };
+    },
+  };
+}
+
+/**
+ * Local text-to-speech with espeak-ng. The voice defaults to the language
+ * code (e.g. "de"), so no extra setup is needed for other languages.
+ */
+export function createEspeakTtsProvider(options: { binary?: string } = {}): TtsProvider {
+  const binary = options.binary || process.env.ESPEAK_BIN || 'espeak-ng';
+
+  return {
+    name: 'espeak-ng',
+
+    async synthesize(text, settings) {
+      const voice = settings.voice || settings.language || process.env.TTS_VOICE || 'en-us';
+      // espeak-ng speaks 175 words per minute by default
+      const wordsPerMinute = Math.round(175 * (settings.speed || 1));
+      const args = ['--stdout', '-v', voice, '-s', String(wordsPerMinute), '--stdin'];
+      return { audio: await runSynthesizer(binary, args, text), format: 'wav' };
+    },
+  };
+}
+
+/**
+ * Wrap a provider with a small least-recently-used cache keyed by text and
+ * settings, so repeated prompts are not synthesized again. Holds
+ * TTS_CACHE_SIZE clips (default 50) unless maxEntries is given.
+ */
+export function withSpeechCache(
+  provider: TtsProvider,
+  maxEntries = parseInt(process.env.TTS_CACHE_SIZE || '50', 10)
+): TtsProvider {
+  const cache = new Map<string, SpeechAudio>();
+
+  return {
+    name: provider.name,
+
+    async synthesize(text, settings) {
+      const key = createHash('sha1')
+        .update(JSON.stringify([provider.name, settings.voice, settings.speed, settings.language, text]))
+        .digest('hex');
+
+      const cached = cache.get(key);
+      if (cached) {
+        // Re-insert so the entry counts as recently used
+        cache.delete(key);
+        cache.set(key, cached);
+        return cached;
+      }
+
+      const speech = await provider.synthesize(text, settings);
+      cache.set(key, speech);
+      if (cache.size > maxEntries) {
+        cache.delete(cache.keys().next().value as string);
+      }
+      return speech;
+    },
+  };
+}
+
+let ttsProvider: TtsProvider | null = null;
+
+/**
+ * Get the configured text-to-speech provider
+ * (TTS_PROVIDER=openai|piper|espeak-ng, default openai), with caching
+ */
+export function getTtsProvider(): TtsProvider {
+  if (!ttsProvider) {
+    const name = process.env.TTS_PROVIDER;
+    ttsProvider = withSpeechCache(
+      name === 'piper'
+        ? createPiperTtsProvider()
+        : name === 'espeak-ng' || name === 'espeak'
+        ? createEspeakTtsProvider()
+        : createOpenAiTtsProvider()
+    );
+    console.log(`🗣️ Using ${ttsProvider.name} text-to-speech provider`);
+  }
+  return ttsProvider;
+}
+
+// Function to replace the text-to-speech provider
+export function setTtsProvider(provider: TtsProvider): void {
+  ttsProvider = provider;
+}
+
+// Function to get a guild's voice settings
+export function getGuildVoiceSettings(guildId: string | undefined): VoiceSettings {
+  return (guildId && guildVoiceSettings.get(guildId)) || {};
+}
+
+// Function to change a guild's voice settings; undefined fields are left as they are
+export function setGuildVoiceSettings(guildId: string, settings: VoiceSettings): VoiceSettings {
+  if (
+    settings.speed !== undefined &&
+    (settings.speed < MIN_SPEECH_SPEED || settings.speed > MAX_SPEECH_SPEED)
+  ) {
+    throw new Error(`Speed must be between ${MIN_SPEECH_SPEED} and ${MAX_SPEECH_SPEED}.`);
+  }
+  if (settings.language !== undefined && !/^[a-z]{2,3}(-[a-z]{2,4})?$/i.test(settings.language)) {
+    throw new Error(`"${settings.language}" is not a language code (e.g. en or pt-br).`);
+  }
+
+  const current = getGuildVoiceSettings(guildId);
+  const updated: VoiceSettings = {
+    ...current,
+    voice: settings.voice ?? current.voice,
+    speed: settings.speed ?? current.speed,
+    language: settings.language ?? current.language,
+  };
+  guildVoiceSettings.set(guildId, updated);
+  console.log(`🗣️ Set voice for guild ${guildId}:`, updated);
+  return updated;
+}
+
+// Function to go back to the default voice for a guild
+export function resetGuildVoiceSettings(guildId: string): void {
+  guildVoiceSettings.delete(guildId);
+}
+
+/**
+ * Synthesize text with the guild's voice settings
+ */
+export async function synthesizeSpeech(text: string, guildId?: string): Promise<SpeechAudio> {
+  return getTtsProvider().synthesize(text, getGuildVoiceSettings(guildId));
+}
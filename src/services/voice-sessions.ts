@@ -0,0 +1,315 @@
+import {
+  AudioPlayer,
+  AudioPlayerStatus,
+  createAudioPlayer,
+  createAudioResource,
+  EndBehaviorType,
+  entersState,
+  joinVoiceChannel,
+  VoiceConnection,
+  VoiceConnectionStatus,
+} from '@discordjs/voice';
+import { Client, VoiceBasedChannel, VoiceState } from 'discord.js';
+import { Readable } from 'stream';
+import prism from 'prism-media';
+import { createVoiceActivityDetector, Utterance } from '../utils/vad';
+
+// How long a dropped connection may take to recover before the session ends
+const RECONNECT_TIMEOUT_MS = 5000;
+
+// How long joining may take before giving up
+const JOIN_TIMEOUT_MS = 20_000;
+
+// Decoding and speech detection for one speaking user
+interface Recorder {
+  stop(): void;
+}
+
+// The bot's presence in one guild's voice channel
+export interface VoiceSession {
+  guildId: string;
+  channelId: string;
+  connection: VoiceConnection;
+  player: AudioPlayer;
+  recorders: Map<string, Recorder>;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export interface VoiceSessionManagerOptions {
+  // Called for every finished utterance of a user in a session
+  onUtterance(guildId: string, userId: string, utterance: Utterance): void;
+  // Whether to join on its own when someone enters a channel (default: always)
+  shouldAutoJoin?(guildId: string): boolean;
+  // Whether to record a user who starts speaking (default: always)
+  shouldRecord?(guildId: string, userId: string): boolean;
+  idleTimeoutMs?: number;
+}
+
+export interface VoiceSessionManager {
+  getSession(guildId: string): VoiceSession | undefined;
+  join(channel: VoiceBasedChannel): VoiceSession;
+  leave(guildId: string, reason: string): void;
+  // Play audio in the guild's channel; resolves when playback finishes
+  play(guildId: string, audio: Readable): Promise<void>;
+  handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void;
+  destroyAll(): void;
+}
+
+// People (not bots) in a voice channel
+function humanCount(channel: VoiceBasedChannel | null): number {
+  return channel ? channel.members.filter((member) => !member.user.bot).size : 0;
+}
+
+/**
+ * Create the manager that owns one voice session per guild: it joins and
+ * follows users, reconnects dropped connections, notices when the bot is
+ * kicked or moved, leaves empty or idle channels and cleans up per-user
+ * recorders.
+ */
+export function createVoiceSessionManager(
+  client: Client,
+  options: VoiceSessionManagerOptions
+): VoiceSessionManager {
+  const sessions = new Map<string, VoiceSession>();
+  // Leave the voice channel after this long without speech or playback
+  const idleTimeoutMs =
+    options.idleTimeoutMs ?? parseInt(process.env.VOICE_IDLE_TIMEOUT_MS || `${10 * 60 * 1000}`, 10);
+
+  // Restart the idle countdown after activity
+  function touch(session: VoiceSession): void {
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => leave(session.guildId, 'idle timeout'), idleTimeoutMs);
+  }
+
+  // Decode one user's audio and split it into utterances until they go quiet
+  function startRecorder(session: VoiceSession, userId: string): void {
+    if (session.recorders.has(userId)) return;
+
+    const opusStream = session.connection.receiver.subscribe(userId, {
+      end: { behavior: EndBehaviorType.AfterInactivity, duration: 2000 },
+    });
+    const decoder = new prism.opus.Decoder({ rate: 48000, channels: 2, frameSize: 960 });
+    const vad = createVoiceActivityDetector();
+    let stopped = false;
+
+    const emit = (utterance: Utterance) => {
+      touch(session);
+      options.onUtterance(session.guildId, userId, utterance);
+    };
+
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      const utterance = vad.flush();
+      if (utterance) emit(utterance);
+
+      opusStream.unpipe(decoder);
+      decoder.removeAllListeners('data');
+      decoder.destroy();
+      opusStream.destroy();
+      if (session.recorders.get(userId)?.stop === stop) session.recorders.delete(userId);
+    };
+
+    decoder.on('data', (chunk: Buffer) => {
+      for (const utterance of vad.push(chunk)) emit(utterance);
+    });
+    decoder.on('error', (error) => {
+      console.error(`❌ Could not decode audio from ${userId}:`, error);
+      stop();
+    });
+    // Discord stops sending audio after the user goes quiet
+    opusStream.once('end', stop);
+    opusStream.once('close', stop);
+    opusStream.pipe(decoder);
+
+    session.recorders.set(userId, { stop });
+  }
+
+  // Tear down a session once its connection is gone
+  function cleanup(session: VoiceSession): void {
+    if (sessions.get(session.guildId) !== session) return;
+    sessions.delete(session.guildId);
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    for (const recorder of [...session.recorders.values()]) recorder.stop();
+    session.player.stop(true);
+    session.connection.receiver.speaking.removeAllListeners('start');
+  }
+
+  function watchConnection(session: VoiceSession): void {
+    const { connection } = session;
+
+    connection.on(VoiceConnectionStatus.Disconnected, async () => {
+      try {
+        // A move to another channel or a short network drop recovers by itself
+        await Promise.race([
+          entersState(connection, VoiceConnectionStatus.Signalling, RECONNECT_TIMEOUT_MS),
+          entersState(connection, VoiceConnectionStatus.Connecting, RECONNECT_TIMEOUT_MS),
+        ]);
+        console.log(`🔌 Voice connection in guild ${session.guildId} is reconnecting`);
+      } catch {
+        // Kicked, channel deleted or the network is gone
+        leave(session.guildId, 'disconnected');
+      }
+    });
+
+    connection.on(VoiceConnectionStatus.Destroyed, () => cleanup(session));
+
+    connection.on('error', (error) => {
+      console.error(`❌ Voice connection error in guild ${session.guildId}:`, error);
+    });
+
+    entersState(connection, VoiceConnectionStatus.Ready, JOIN_TIMEOUT_MS).catch(() => {
+      console.error(`❌ Could not connect to voice in guild ${session.guildId}`);
+      leave(session.guildId, 'connection timeout');
+    });
+  }
+
+  function join(channel: VoiceBasedChannel): VoiceSession {
+    const existing = sessions.get(channel.guild.id);
+    if (existing) {
+      if (existing.channelId !== channel.id) {
+        // Moving keeps the connection, but recorders belong to the old channel
+        for (const recorder of [...existing.recorders.values()]) recorder.stop();
+        existing.connection.rejoin({ channelId: channel.id, selfDeaf: false, selfMute: false });
+        existing.channelId = channel.id;
+        console.log(`🤖 Moved to voice channel: ${channel.name}`);
+      }
+      touch(existing);
+      return existing;
+    }
+
+    const connection = joinVoiceChannel({
+      channelId: channel.id,
+      guildId: channel.guild.id,
+      adapterCreator: channel.guild.voiceAdapterCreator,
+      selfDeaf: false,
+    });
+    const player = createAudioPlayer();
+    connection.subscribe(player);
+
+    const session: VoiceSession = {
+      guildId: channel.guild.id,
+      channelId: channel.id,
+      connection,
+      player,
+      recorders: new Map(),
+    };
+    sessions.set(session.guildId, session);
+
+    connection.receiver.speaking.on('start', (userId) => {
+      const member = channel.guild.members.cache.get(userId);
+      if (member?.user.bot) return;
+      if (options.shouldRecord && !options.shouldRecord(session.guildId, userId)) return;
+      startRecorder(session, userId);
+    });
+    player.on('error', (error) => console.error('❌ Error playing audio:', error));
+
+    watchConnection(session);
+    touch(session);
+    console.log(`🤖 Joined voice channel: ${channel.name}`);
+    return session;
+  }
+
+  function leave(guildId: string, reason: string): void {
+    const session = sessions.get(guildId);
+    if (!session) return;
+    cleanup(session);
+    if (session.connection.state.status !== VoiceConnectionStatus.Destroyed) {
+      session.connection.destroy();
+    }
+    console.log(`🤖 Left voice channel in guild ${guildId} (${reason})`);
+  }
+
+  async function play(guildId: string, audio: Readable): Promise<void> {
+    const session = sessions.get(guildId);
+    if (!session) {
+      console.log('No voice connection found');
+      return;
+    }
+
+    touch(session);
+    session.player.play(createAudioResource(audio));
+    await new Promise<void>((resolve, reject) => {
+      const onIdle = () => {
+        session.player.off('error', onError);
+        console.log('✅ Finished playing audio response');
+        resolve();
+      };
+      const onError = (error: Error) => {
+        session.player.off(AudioPlayerStatus.Idle, onIdle);
+        reject(error);
+      };
+      session.player.once(AudioPlayerStatus.Idle, onIdle);
+      session.player.once('error', onError);
+    });
+    touch(session);
+  }
+
+  function handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    const guildId = newState.guild.id;
+    const session = sessions.get(guildId);
+
+    // The bot itself was moved or disconnected by someone else
+    if (newState.id === client.user?.id) {
+      if (!session) return;
+      if (!newState.channelId) {
+        leave(guildId, 'removed from channel');
+      } else if (newState.channelId !== session.channelId) {
+        for (const recorder of [...session.recorders.values()]) recorder.stop();
+        session.channelId = newState.channelId;
+        console.log(`🤖 Was moved to voice channel: ${newState.channel?.name}`);
+      }
+      return;
+    }
+
+    if (newState.member?.user.bot) return;
+    if (oldState.channelId === newState.channelId) return; // Mute, deafen, stream changes
+
+    const userId = newState.id;
+    if (session && oldState.channelId === session.channelId) {
+      session.recorders.get(userId)?.stop();
+    }
+
+    // Someone joined or moved into a channel
+    if (newState.channel) {
+      if (!session) {
+        if (!options.shouldAutoJoin || options.shouldAutoJoin(guildId)) join(newState.channel);
+        return;
+      }
+      // Follow users out of a channel that is now empty
+      const current = newState.guild.channels.cache.get(session.channelId);
+      if (!current?.isVoiceBased() || humanCount(current) === 0) {
+        join(newState.channel);
+        return;
+      }
+    }
+
+    // Leave once the bot's channel has no people left
+    if (session && oldState.channelId === session.channelId && humanCount(oldState.channel) === 0) {
+      leave(guildId, 'channel is empty');
+    }
+  }
+
+  return {
+    getSession: (guildId) => sessions.get(guildId),
+    join,
+    leave,
+    play,
+    handleVoiceStateUpdate,
+    destroyAll() {
+      for (const guildId of [...sessions.keys()]) leave(guildId, 'shutting down');
+    },
+  };
+}
+
+let voiceSessionManager: VoiceSessionManager | null = null;
+
+// Function to get the voice session manager, once the client is ready
+export function getVoiceSessionManager(): VoiceSessionManager | null {
+  return voiceSessionManager;
+}
+
+// Function to set the voice session manager
+export function setVoiceSessionManager(manager: VoiceSessionManager): void {
+  voiceSessionManager = manager;
+}
@@ -1,18 +1,46 @@
 import {
-  joinVoiceChannel,
-  VoiceReceiver,
-  EndBehaviorType,
-  createAudioPlayer,
-  createAudioResource,
-  AudioPlayerStatus,
-  getVoiceConnection,
-} from '@discordjs/voice';
-import { VoiceState, TextChannel, Client } from 'discord.js';
-import fs from 'fs';
-import { spawn } from 'child_process';
-import prism from 'prism-media';
-import OpenAI from 'openai';
-import { getMeetingTimesByVoice } from './gpt-voice-completions';
+  ChannelType,
+  Client,
+  Guild,
+  GuildTextBasedChannel,
+  MessageCreateOptions,
+  ThreadAutoArchiveDuration,
+  ThreadChannel,
+} from 'discord.js';
+import { Readable } from 'stream';
+import { getProposal, titleFromDetails } from './booking';
+import { buildSuggestionMessage } from '../commands/suggestions';
+import {
+  advanceDialog,
+  attachDialogThread,
+  DIALOG_STATE_LABELS,
+  DialogInput,
+  DialogTurn,
+  getDialog,
+  getThreadSession,
+  groupSessionId,
+  resetDialog,
+  Speaker,
+} from './dialog';
+import {
+  availabilityFromBusyIntervals,
+  AVAILABILITY_JSON_SCHEMA,
+  clearUserAvailability,
+  setUserAvailability,
+  validateAvailability,
+} from './availability';
+import { icsToBusyIntervals } from '../utils/ics';
+import { buildAvailabilityMessage } from '../commands/availability';
+import { buildMeetingMessage } from '../commands/meeting';
+import { resolveTimezone } from './timezones';
+import { getLlmProvider } from './llm';
+import { getSttProvider } from './stt';
+import { getGuildVoiceSettings, SpeechAudio, synthesizeSpeech } from './tts';
+import { getGuildConfig } from './guild-config';
+import { Utterance } from '../utils/vad';
+import { getVoiceSessionManager } from './voice-sessions';
+import { filterAddressedSpeech, getWakePhrase, keepConversationOpen } from './listening';
+import { downmixPcm, pcmToWav, saveDebugAudio, SPEECH_SAMPLE_RATE } from '../utils/audio';
 
 // Global client reference for sending messages
 let discordClient: Client | null = null;
@@ -22,528 +50,244 @@ export function setDiscordClient(client: Client) {
   discordClient = client;
 }
 
-// Transcribe function
-export async function transcribeAudio(audioFile: string): Promise<string> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  let attempts = 0;
-  const maxAttempts = 2;
-
-  while (attempts < maxAttempts) {
-    try {
-      const transcription = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(audioFile),
-        model: 'whisper-1',
-        response_format: 'verbose_json',
-        timestamp_granularities: ['word'],
-      });
-      if (transcription.text) {
-        return transcription.text;
-      } else {
-        throw new Error('No transcription text found');
-      }
-    } catch (error: any) {
-      if (error.response?.status === 429) {
-        attempts++;
-        const delay = Math.pow(2, attempts) * 1000;
-        console.warn(
-          `Rate limited. Retrying in ${
-            delay / 1000
-          }s... (${attempts}/${maxAttempts})`
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      } else {
-        console.error(
-          '❌ Transcription failed:',
-          error.response?.data || error.message
-        );
-        throw error;
-      }
-    }
-  }
+// Utterances waiting to be transcribed, processed one at a time per user
+const userUtteranceQueues: Map<string, Promise<void>> = new Map();
 
-  throw new Error(
-    'Failed to transcribe after multiple attempts due to rate limiting.'
+/**
+ * Queue a finished utterance from a voice session for transcription
+ */
+export function handleUtterance(guildId: string, userId: string, utterance: Utterance): void {
+  console.log(
+    `🎙️ Processing ${(utterance.durationMs / 1000).toFixed(1)}s of audio for ${userId}`
   );
-}
-
-const userAudioBuffers: Map<string, Buffer[]> = new Map();
-const userRecordingSessions: Map<
-  string,
-  { startTime: number; isRecording: boolean; lastProcessedTime: number }
-> = new Map();
-const minDurationMs = 300; // Reduced to 10 seconds for faster processing
-
-// Store conversation context for each user
-const userConversations: Map<
-  string,
-  { transcript: string; meetingTimes: string[] }
-> = new Map();
-
-// Global variable to store current user schedules
-export const currentUserSchedule: Map<string, string> = new Map();
 
-// Cooldown period to prevent repeated processing (5 seconds)
-const PROCESSING_COOLDOWN_MS = 5000;
+  const previous = userUtteranceQueues.get(userId) || Promise.resolve();
+  const next = previous
+    .then(() => processAndTranscribe(userId, utterance.audio, guildId))
+    .catch((error) => console.error(`❌ Failed to process audio for ${userId}:`, error))
+    .finally(() => {
+      if (userUtteranceQueues.get(userId) === next) userUtteranceQueues.delete(userId);
+    });
+  userUtteranceQueues.set(userId, next);
+}
 
-function startRecording(
-  receiver: VoiceReceiver,
+async function processAndTranscribe(
   userId: string,
+  buffer: Buffer,
   guildId?: string
-) {
-  if (!userAudioBuffers.has(userId)) {
-    userAudioBuffers.set(userId, []);
+): Promise<void> {
+  // Recognizers work at 16 kHz mono, which also keeps the upload small
+  const wav = pcmToWav(downmixPcm(buffer, 48000, 2), SPEECH_SAMPLE_RATE, 1);
+  const filename = `${userId}-${Date.now()}.wav`;
+  saveDebugAudio(filename, wav);
+
+  // Mentioning the wake phrase helps the recognizer spell it consistently
+  const transcription = await getSttProvider().transcribe(
+    { data: wav, filename },
+    { prompt: getWakePhrase(), language: getGuildVoiceSettings(guildId).language }
+  );
+  console.log(
+    `📝 Transcription${transcription.language ? ` (${transcription.language})` : ''}: ${transcription.text}`
+  );
+  if (!transcription.text) {
+    console.log(`🔇 No speech recognized for ${userId}`);
+    return;
   }
 
-  // Initialize recording session
-  userRecordingSessions.set(userId, {
-    startTime: Date.now(),
-    isRecording: true,
-    lastProcessedTime: 0,
-  });
-
-  const opusStream = receiver.subscribe(userId, {
-    end: { behavior: EndBehaviorType.AfterInactivity, duration: 2000 }, // Reduced to 1 second
-  });
-
-  const decoder = new prism.opus.Decoder({
-    rate: 48000,
-    channels: 2,
-    frameSize: 960,
-  });
-
-  opusStream.pipe(decoder);
-
-  let isCollecting = false;
-  let silenceStartTime = 0;
-  const silenceThreshold = 2000; // 2 seconds of silence to stop recording
-  let processingInProgress = false; // Flag to prevent multiple simultaneous processing
-
-  decoder.on('data', async (chunk) => {
-    // Skip if we're currently processing to avoid conflicts
-    if (processingInProgress) return;
-
-    const existing = userAudioBuffers.get(userId) || [];
-
-    // Check if this chunk contains actual audio (not silence)
-    const hasAudio = hasSignificantAudio(chunk);
-
-    if (hasAudio) {
-      // User is speaking
-      isCollecting = true;
-      silenceStartTime = 0;
-      existing.push(chunk);
-      userAudioBuffers.set(userId, existing);
-    } else if (isCollecting) {
-      // User stopped speaking, start silence timer
-      if (silenceStartTime === 0) {
-        silenceStartTime = Date.now();
-      }
-
-      // If silence continues for threshold, process the current buffer
-      if (Date.now() - silenceStartTime > silenceThreshold) {
-        isCollecting = false;
-
-        // Only process if we have enough audio and not already processing
-        const totalLength = existing.reduce((sum, buf) => sum + buf.length, 0);
-        const durationMs = (totalLength / (48000 * 2 * 2)) * 1000;
-
-        // Check cooldown period
-        const session = userRecordingSessions.get(userId);
-        const timeSinceLastProcessed =
-          Date.now() - (session?.lastProcessedTime || 0);
-
-        if (
-          durationMs >= minDurationMs &&
-          !processingInProgress &&
-          timeSinceLastProcessed > PROCESSING_COOLDOWN_MS
-        ) {
-          processingInProgress = true;
-          await finalizeRecording(userId, existing, guildId);
-          processingInProgress = false;
-
-          // Reset buffer but keep the session active for continuous recording
-          userAudioBuffers.set(userId, []);
-        }
-        return;
+  // Only act on speech meant for the bot
+  const addressed = guildId
+    ? filterAddressedSpeech(guildId, userId, transcription.text)
+    : { text: transcription.text, wakeOnly: false };
+  if (!addressed) {
+    console.log(`🙉 Ignoring speech not addressed to the bot from ${userId}`);
+    return;
+  }
+  if (addressed.wakeOnly) {
+    // Just the wake phrase: acknowledge and wait for the request
+    if (guildId) {
+      try {
+        const speech = await textToSpeech('Yes? What would you like to schedule?', guildId);
+        await playAudioInChannel(speech, guildId);
+        keepConversationOpen(guildId, userId);
+      } catch (error) {
+        console.error('Error playing acknowledgement audio:', error);
       }
-
-      // Still within silence threshold, keep the chunk
-      existing.push(chunk);
-      userAudioBuffers.set(userId, existing);
     }
-  });
-
-  // Handle when user leaves voice channel
-  opusStream.on('end', async () => {
-    const existing = userAudioBuffers.get(userId) || [];
-
-    // Check cooldown period
-    const session = userRecordingSessions.get(userId);
-    const timeSinceLastProcessed =
-      Date.now() - (session?.lastProcessedTime || 0);
-
-    if (
-      existing.length > 0 &&
-      !processingInProgress &&
-      timeSinceLastProcessed > PROCESSING_COOLDOWN_MS
-    ) {
-      processingInProgress = true;
-      await finalizeRecording(userId, existing, guildId);
-      processingInProgress = false;
-    }
-  });
+    return;
+  }
+  // Everyone in the voice channel shares one session. Voice channels also have
+  // their own text chat, used when no output channel is configured.
+  const voiceChannelId = guildId ? getVoiceSessionManager()?.getSession(guildId)?.channelId : undefined;
+  await continueConversation(
+    voiceChannelId ? groupSessionId(voiceChannelId) : userId,
+    { kind: 'voice', text: addressed.text, speaker: getSpeaker(userId, guildId) },
+    guildId,
+    voiceChannelId
+  );
+  if (guildId) keepConversationOpen(guildId, userId);
 }
 
-// Check if audio chunk contains significant audio (not just silence)
-function hasSignificantAudio(chunk: Buffer): boolean {
-  const threshold = 100; // Adjust this value as needed
-  let sum = 0;
+// Function to convert text to speech with the guild's voice
+async function textToSpeech(text: string, guildId?: string): Promise<SpeechAudio> {
+  try {
+    const speech = await synthesizeSpeech(text, guildId);
+    saveDebugAudio(`bot-response-${Date.now()}.${speech.format}`, speech.audio);
 
-  for (let i = 0; i < chunk.length; i += 2) {
-    const sample = chunk.readInt16LE(i);
-    sum += Math.abs(sample);
+    return speech;
+  } catch (error) {
+    console.error('Error converting text to speech:', error);
+    throw error;
   }
-
-  const average = sum / (chunk.length / 2);
-  return average > threshold;
 }
 
-// Finalize recording when user stops speaking
-async function finalizeRecording(
-  userId: string,
-  buffer: Buffer[],
-  guildId?: string
+// Function to play synthesized audio in voice channel straight from memory
+async function playAudioInChannel(
+  speech: SpeechAudio,
+  guildId: string
 ): Promise<void> {
-  const session = userRecordingSessions.get(userId);
-  if (session && session.isRecording) {
-    // Don't set isRecording to false - keep the session active for continuous recording
-
-    const totalLength = buffer.reduce((sum, buf) => sum + buf.length, 0);
-    const durationMs = (totalLength / (48000 * 2 * 2)) * 100;
-
-    console.log(`durationMs: ${durationMs}`);
-
-    if (durationMs >= minDurationMs) {
-      console.log(
-        `🎙️ Processing ${Math.round(durationMs / 1000)}s of audio for ${userId}`
-      );
-
-      // Update last processed time to prevent repeated processing
-      session.lastProcessedTime = Date.now();
-      userRecordingSessions.set(userId, session);
-
-      await processAndTranscribe(userId, Buffer.concat(buffer), guildId);
-
-      // Don't delete the session - keep it active for continuous recording
-      // userRecordingSessions.delete(userId); // REMOVED - keep session active
-    }
-
-    // Reset buffer but keep the session active
-    userAudioBuffers.set(userId, []);
+  const manager = getVoiceSessionManager();
+  if (!manager) {
+    console.log('No voice connection found');
+    return;
   }
+  await manager.play(guildId, Readable.from(speech.audio));
 }
 
-async function processAndTranscribe(
-  userId: string,
-  buffer: Buffer,
-  guildId?: string
-): Promise<void> {
-  // Trim silence from the buffer before processing
-  const trimmedBuffer = trimSilence(buffer);
-
-  const filename = `./audio/${userId}-${Date.now()}.mp3`;
-  const ffmpeg = spawn('ffmpeg', [
-    '-f',
-    's16le',
-    '-ar',
-    '48000',
-    '-ac',
-    '2',
-    '-i',
-    'pipe:0',
-    '-acodec',
-    'libmp3lame',
-    '-b:a',
-    '128k',
-    filename,
-  ]);
-
-  ffmpeg.stdin.write(trimmedBuffer);
-  ffmpeg.stdin.end();
-
-  return new Promise((resolve, reject) => {
-    ffmpeg.on('close', async (code) => {
-      if (code === 0) {
-        console.log(`✅ Saved: ${filename}`);
-        try {
-          const transcript = await transcribeAudio(filename);
-          console.log(`📝 Transcription: ${transcript}`);
-
-          // Get existing conversation context
-          const existingContext = userConversations.get(userId) || {
-            transcript: '',
-            meetingTimes: [],
-          };
-
-          // Process meeting times with context (including schedule data)
-          const meetingTimes = await getMeetingTimesByVoice(transcript, existingContext, userId);
-
-          // Check if schedule is required
-          if (meetingTimes.length > 0 && meetingTimes[0].startsWith('SCHEDULE_REQUIRED:')) {
-            const scheduleMessage = meetingTimes.join('\n');
-            
-            // Send schedule requirement message to text channel
-            if (guildId) {
-              await sendToTextChannel(
-                guildId,
-                `📅 **Schedule Required:**\n\n${scheduleMessage.replace('SCHEDULE_REQUIRED:', '').trim()}\n\nPlease upload your schedule image or provide your availability.`
-              );
-            }
-
-            // Convert to speech and play it
-            if (guildId) {
-              try {
-                const audioFile = await textToSpeech(scheduleMessage.replace('SCHEDULE_REQUIRED:', '').trim());
-                await playAudioInChannel(audioFile, guildId);
-              } catch (error) {
-                console.error('Error playing schedule requirement audio:', error);
-              }
-            }
-            
-            return; // Stop processing until schedule is provided
-          }
-
-          // Store updated conversation context - accumulate all previous inputs
-          const updatedContext = {
-            transcript: existingContext.transcript
-              ? existingContext.transcript + '\n' + transcript
-              : transcript,
-            meetingTimes: [...existingContext.meetingTimes, ...meetingTimes],
-          };
-
-          userConversations.set(userId, updatedContext);
-
-          console.log(
-            `💬 Updated conversation context for ${userId}:`,
-            updatedContext
-          );
-
-          // Check if conversation should end
-          const conversationLength =
-            updatedContext.transcript.split('\n').length;
-          const hasMeetingTimes = updatedContext.meetingTimes.length > 0;
-          const isConversationComplete =
-            conversationLength >= 3 && hasMeetingTimes;
-
-          console.log(
-            `isConversationComplete: ${isConversationComplete}, conversationLength: ${conversationLength}, hasMeetingTimes: ${hasMeetingTimes}`
-          );
-
-          // Send transcript to text channel
-          if (guildId) {
-            const statusEmoji = isConversationComplete ? '✅' : '🔄';
-            await sendToTextChannel(
-              guildId,
-              `${statusEmoji} **Voice Input:** ${transcript}\n\n📅 **Meeting Suggestions:**\n${meetingTimes.join(
-                '\n'
-              )}\n\n ${meetingTimes.join('\n')}\n\n📚 **Full Context:** ${
-                updatedContext.transcript
-              }`
-            );
-          }
-
-          // Convert follow-up question to speech and play it
-          if (guildId) {
-            try {
-              const audioFile = await textToSpeech(meetingTimes.join('\n'));
-              await playAudioInChannel(audioFile, guildId);
-
-              if (!isConversationComplete) {
-                // Continue listening after bot response - recording session remains active
-                setTimeout(() => {
-                  console.log(
-                    `🔄 Continuing to listen for ${userId}... (Context accumulated: ${
-                      updatedContext.transcript.split('\n').length
-                    } inputs)`
-                  );
-                  // The recording session continues automatically - no need to restart
-                }, 3000); // Wait 3 seconds after bot finishes speaking
-              }
-            } catch (error) {
-              console.error('Error playing audio response:', error);
-            }
-          }
-
-          resolve();
-        } catch (e) {
-          console.error(`❌ Failed to transcribe ${filename}`, e);
-          reject(e);
-        }
-      } else {
-        console.error(`❌ FFmpeg failed for ${filename}`);
-        reject(new Error('FFmpeg failed'));
-      }
-    });
-  });
+// Function to name a user the way the others in the server see them
+function getSpeaker(userId: string, guildId?: string): Speaker {
+  const guild = guildId ? discordClient?.guilds.cache.get(guildId) : undefined;
+  const member = guild?.members.cache.get(userId);
+  const user = member?.user || discordClient?.users.cache.get(userId);
+  return { id: userId, name: member?.displayName || user?.username || `User ${userId}` };
 }
 
-// Function to trim silence from the beginning and end of audio buffer
-function trimSilence(buffer: Buffer): Buffer {
-  const sampleRate = 48000;
-  const channels = 2;
-  const bytesPerSample = 2; // 16-bit audio
-  const samplesPerFrame = channels * bytesPerSample;
-
-  // Convert buffer to 16-bit samples
-  const samples: number[] = [];
-  for (let i = 0; i < buffer.length; i += 2) {
-    samples.push(buffer.readInt16LE(i));
-  }
-
-  // Calculate RMS (Root Mean Square) for each frame to detect silence
-  const frameSize = 960; // 20ms at 48kHz
-  const silenceThreshold = 500; // Adjust this value based on your needs
-  const frames: number[] = [];
-
-  for (let i = 0; i < samples.length; i += frameSize) {
-    const frame = samples.slice(i, i + frameSize);
-    const rms = Math.sqrt(
-      frame.reduce((sum, sample) => sum + sample * sample, 0) / frame.length
-    );
-    frames.push(rms);
-  }
-
-  // Find start and end of speech
-  let speechStart = 0;
-  let speechEnd = frames.length - 1;
-
-  // Find start of speech (first frame above threshold)
-  for (let i = 0; i < frames.length; i++) {
-    if (frames[i] > silenceThreshold) {
-      speechStart = i;
-      break;
-    }
-  }
-
-  // Find end of speech (last frame above threshold)
-  for (let i = frames.length - 1; i >= 0; i--) {
-    if (frames[i] > silenceThreshold) {
-      speechEnd = i;
-      break;
-    }
-  }
-
-  // Add a small buffer (0.5 seconds) around the speech
-  const bufferFrames = Math.floor((0.5 * sampleRate) / frameSize);
-  speechStart = Math.max(0, speechStart - bufferFrames);
-  speechEnd = Math.min(frames.length - 1, speechEnd + bufferFrames);
-
-  // Convert frame indices back to sample indices
-  const startSample = speechStart * frameSize;
-  const endSample = (speechEnd + 1) * frameSize;
-
-  // Extract the trimmed audio
-  const trimmedSamples = samples.slice(startSample, endSample);
-
-  // Convert back to buffer
-  const trimmedBuffer = Buffer.alloc(trimmedSamples.length * 2);
-  for (let i = 0; i < trimmedSamples.length; i++) {
-    trimmedBuffer.writeInt16LE(trimmedSamples[i], i * 2);
+// Function to find the session a user's message belongs to: the session of a
+// scheduling thread, the shared session of the voice channel the user is in
+// with the bot, or the user's own session
+function resolveSessionId(userId: string, guildId?: string, channelId?: string): string {
+  const threadSession = channelId ? getThreadSession(channelId) : undefined;
+  if (threadSession) return threadSession;
+
+  const voiceChannelId = guildId ? getVoiceSessionManager()?.getSession(guildId)?.channelId : undefined;
+  const member = guildId ? discordClient?.guilds.cache.get(guildId)?.members.cache.get(userId) : undefined;
+  if (voiceChannelId && member?.voice.channelId === voiceChannelId) {
+    return groupSessionId(voiceChannelId);
   }
+  return userId;
+}
 
-  console.log(
-    `🎵 Trimmed audio: ${Math.round(
-      (trimmedBuffer.length / (sampleRate * channels * bytesPerSample)) * 1000
-    )}ms (was ${Math.round(
-      (buffer.length / (sampleRate * channels * bytesPerSample)) * 1000
-    )}ms)`
+// Function to find a server member by the name used in conversation ("with Anna")
+function findGuildMember(guildId: string | undefined, name: string): string | undefined {
+  const guild = guildId ? discordClient?.guilds.cache.get(guildId) : undefined;
+  const wanted = name.toLowerCase();
+  const member = guild?.members.cache.find(
+    (candidate) =>
+      !candidate.user.bot &&
+      [candidate.displayName, candidate.user.username].some((label) => {
+        const lower = label.toLowerCase();
+        return lower === wanted || lower.split(/\s+/)[0] === wanted;
+      })
   );
-
-  return trimmedBuffer;
+  return member?.id;
 }
 
-export function handleVoiceStateUpdate(
-  oldState: VoiceState,
-  newState: VoiceState
-) {
-  if (newState.channelId && !oldState.channelId) {
-    const connection = joinVoiceChannel({
-      channelId: newState.channelId,
-      guildId: newState.guild.id,
-      adapterCreator: newState.guild.voiceAdapterCreator,
-      selfDeaf: false,
-    });
-
-    connection.receiver.speaking.on('start', (userId) => {
-      console.log(
-        `🎙️ User ${userId} started speaking, Guild ID: ${newState.guild.id}`
-      );
-      startRecording(connection.receiver, userId, newState.guild.id);
-    });
+// Function to post a dialog turn to the text channel and speak the reply
+async function announceTurn(
+  sessionId: string,
+  input: DialogInput,
+  turn: DialogTurn,
+  guildId: string,
+  channelId?: string
+): Promise<void> {
+  const { dialog, previousState, reply, meeting } = turn;
+  const lines: string[] = [];
+  if (input.kind === 'voice') lines.push(`🎙️ **${input.speaker.name}:** ${input.text}`);
+  if (input.kind === 'text') lines.push(`💬 **${input.speaker.name}:** ${input.text}`);
+  lines.push(
+    dialog.state === previousState
+      ? DIALOG_STATE_LABELS[dialog.state]
+      : `${DIALOG_STATE_LABELS[previousState]} → **${DIALOG_STATE_LABELS[dialog.state]}**`
+  );
+  lines.push(`🤖 ${reply}`);
+  const content = lines.join('\n\n');
+
+  // Offer the options as buttons while the dialog waits for a pick
+  const proposal =
+    dialog.state === 'proposing' && dialog.proposalId ? getProposal(dialog.proposalId) : undefined;
+  await sendToSession(
+    sessionId,
+    guildId,
+    proposal ? buildSuggestionMessage(proposal, content) : content,
+    channelId
+  );
+  if (meeting) {
+    await sendToSession(sessionId, guildId, buildMeetingMessage(meeting), channelId);
   }
-}
-
-// Function to convert text to speech using OpenAI TTS
-async function textToSpeech(text: string): Promise<string> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
   try {
-    const mp3 = await openai.audio.speech.create({
-      model: 'tts-1',
-      voice: 'alloy',
-      input: text,
-    });
-
-    const buffer = Buffer.from(await mp3.arrayBuffer());
-    const filename = `./audio/bot-response-${Date.now()}.mp3`;
-    fs.writeFileSync(filename, buffer);
-
-    return filename;
+    const speech = await textToSpeech(reply, guildId);
+    await playAudioInChannel(speech, guildId);
   } catch (error) {
-    console.error('Error converting text to speech:', error);
-    throw error;
+    console.error('Error playing audio response:', error);
   }
 }
 
-// Function to play audio in voice channel
-async function playAudioInChannel(
-  audioFile: string,
-  guildId: string
-): Promise<void> {
-  try {
-    const connection = getVoiceConnection(guildId);
-    if (!connection) {
-      console.log('No voice connection found');
-      return;
-    }
-
-    const player = createAudioPlayer();
-    const resource = createAudioResource(audioFile);
-
-    connection.subscribe(player);
-    player.play(resource);
-
-    return new Promise((resolve, reject) => {
-      player.on(AudioPlayerStatus.Idle, () => {
-        console.log('✅ Finished playing audio response');
-        resolve();
-      });
+// Function to find the channel a booked meeting is reminded in. Scheduling
+// threads are archived once the session ends, so a thread gives way to the
+// channel it was opened in.
+export function meetingChannelId(
+  guildId: string | undefined,
+  channelId: string | undefined
+): string | undefined {
+  const guild = guildId ? discordClient?.guilds.cache.get(guildId) : undefined;
+  const channel = channelId ? guild?.channels.cache.get(channelId) : undefined;
+  return channel?.isThread() ? channel.parentId || undefined : channelId;
+}
 
-      player.on('error', (error) => {
-        console.error('❌ Error playing audio:', error);
-        reject(error);
-      });
-    });
-  } catch (error) {
-    console.error('Error playing audio:', error);
-    throw error;
+/**
+ * Advance a session's scheduling dialog with any input and answer in the
+ * session's thread or text channel and in voice
+ */
+export async function continueConversation(
+  sessionId: string,
+  input: DialogInput,
+  guildId?: string,
+  channelId?: string
+): Promise<DialogTurn> {
+  const turn = await advanceDialog(sessionId, input, {
+    guildId,
+    channelId: meetingChannelId(guildId, channelId),
+    findMember: (name) => findGuildMember(guildId, name),
+  });
+  if (guildId) {
+    await announceTurn(sessionId, input, turn, guildId, channelId);
   }
+  if (turn.dialog.state === 'booked' || turn.dialog.state === 'cancelled') {
+    await archiveSessionThread(guildId, turn.dialog.threadId);
+  }
+  return turn;
+}
+
+// Function to find where replies go: the channel set with /config channel,
+// else the channel the conversation started in, else the first text channel
+function resolveTextChannel(
+  guild: Guild,
+  originChannelId?: string
+): GuildTextBasedChannel | undefined {
+  const configured = [getGuildConfig(guild.id).outputChannelId, originChannelId]
+    .map((channelId) => (channelId ? guild.channels.cache.get(channelId) : undefined))
+    .find((channel) => channel?.isTextBased());
+  return (configured ||
+    guild.channels.cache.find(
+      (channel) => channel.type === ChannelType.GuildText && channel.isTextBased()
+    )) as GuildTextBasedChannel | undefined;
 }
 
-// Function to send message to text channel
+// Function to send a message to the guild's output channel
 async function sendToTextChannel(
   guildId: string,
-  message: string
+  message: string | MessageCreateOptions,
+  originChannelId?: string
 ): Promise<void> {
   if (!discordClient) {
     console.log('Discord client not available');
@@ -557,11 +301,7 @@ async function sendToTextChannel(
       return;
     }
 
-    // Find the first text channel (you can modify this to target a specific channel)
-    const textChannel = guild.channels.cache.find(
-      (channel) => channel.type === 0 && channel.isTextBased() // 0 is GUILD_TEXT
-    ) as TextChannel;
-
+    const textChannel = resolveTextChannel(guild, originChannelId);
     if (textChannel) {
       await textChannel.send(message);
       console.log(`✅ Sent message to text channel: ${textChannel.name}`);
@@ -573,181 +313,202 @@ async function sendToTextChannel(
   }
 }
 
-// Function to handle text message input and integrate with voice conversation
-export async function handleTextMessage(
-  userId: string,
-  message: string,
-  guildId?: string
-): Promise<void> {
-  try {
-    console.log(`📝 Text message from ${userId}: ${message}`);
-
-    // Get existing conversation context
-    const existingContext = userConversations.get(userId) || {
-      transcript: '',
-      meetingTimes: [],
-    };
+// Function to get the thread of a scheduling session, opening one under the output channel
+async function getSessionThread(
+  sessionId: string,
+  guildId: string,
+  originChannelId?: string
+): Promise<ThreadChannel | undefined> {
+  const guild = discordClient?.guilds.cache.get(guildId);
+  if (!guild) return undefined;
+
+  const threadId = getDialog(sessionId)?.threadId;
+  if (threadId) {
+    const existing = await guild.channels.fetch(threadId).catch(() => null);
+    if (existing?.isThread()) return existing;
+  }
 
-    // Process the text message as if it were voice input (with context)
-    const meetingTimes = await getMeetingTimesByVoice(message, existingContext, userId);
+  // Voice channel chats and other threads cannot hold threads
+  const parent = resolveTextChannel(guild, originChannelId);
+  if (parent?.type !== ChannelType.GuildText && parent?.type !== ChannelType.GuildAnnouncement) {
+    return undefined;
+  }
 
-    // Store updated conversation context
-    userConversations.set(userId, {
-      transcript: existingContext.transcript + '\n[Text]: ' + message,
-      meetingTimes: [...existingContext.meetingTimes, ...meetingTimes],
-    });
+  const dialog = getDialog(sessionId);
+  const organizer = dialog?.participants[dialog.organizerId];
+  const name = dialog?.transcript.length
+    ? titleFromDetails(dialog.transcript[0].text)
+    : `Scheduling for ${organizer || 'a meeting'}`;
+  const thread = await parent.threads.create({
+    name: name.substring(0, 100), // Discord's limit for thread names
+    autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+    reason: `Scheduling session ${sessionId}`,
+  });
+  attachDialogThread(sessionId, thread.id);
+  console.log(`🧵 Opened thread "${thread.name}" for session ${sessionId}`);
+  return thread;
+}
 
-    // Send response to text channel
-    if (guildId) {
-      await sendToTextChannel(
-        guildId,
-        `💬 **Text Input:** ${message}\n\n📅 **Meeting Suggestions:**\n${meetingTimes.join(
-          '\n'
-        )}\n\n❓`
-      );
+// Function to send a message to the thread of a session, else to the output channel
+async function sendToSession(
+  sessionId: string,
+  guildId: string,
+  message: string | MessageCreateOptions,
+  originChannelId?: string
+): Promise<void> {
+  try {
+    const thread = await getSessionThread(sessionId, guildId, originChannelId);
+    if (thread) {
+      await thread.send(message);
+      console.log(`✅ Sent message to thread: ${thread.name}`);
+      return;
     }
+  } catch (error) {
+    console.error('Error sending message to session thread:', error);
+  }
+  await sendToTextChannel(guildId, message, originChannelId);
+}
 
-    // Convert follow-up question to speech and play it
-    if (guildId) {
-      try {
-        const audioFile = await textToSpeech(meetingTimes.join('\n'));
-        await playAudioInChannel(audioFile, guildId);
-      } catch (error) {
-        console.error('Error playing audio response:', error);
-      }
+// Function to archive a session's thread once the session is over
+export async function archiveSessionThread(
+  guildId: string | undefined,
+  threadId: string | undefined
+): Promise<void> {
+  if (!guildId || !threadId) return;
+  try {
+    const thread = await discordClient?.guilds.cache.get(guildId)?.channels.fetch(threadId);
+    if (thread?.isThread() && !thread.archived) {
+      await thread.setArchived(true, 'Scheduling session ended');
+      console.log(`🧵 Archived thread "${thread.name}"`);
     }
   } catch (error) {
-    console.error('Error handling text message:', error);
+    console.error('Error archiving session thread:', error);
   }
 }
 
-// Function to get conversation context for a user
-export function getConversationContext(userId: string) {
-  return userConversations.get(userId);
+// Function to handle text message input and integrate with voice conversation
+export async function handleTextMessage(
+  userId: string,
+  message: string,
+  guildId?: string,
+  channelId?: string
+): Promise<void> {
+  try {
+    console.log(`📝 Text message from ${userId}: ${message}`);
+    await continueConversation(
+      resolveSessionId(userId, guildId, channelId),
+      { kind: 'text', text: message, speaker: getSpeaker(userId, guildId) },
+      guildId,
+      channelId
+    );
+  } catch (error) {
+    console.error('Error handling text message:', error);
+  }
 }
 
-// Function to clear conversation context for a user
-export function clearConversationContext(userId: string) {
-  userConversations.delete(userId);
-  currentUserSchedule.delete(userId); // Also clear schedule data
+// Function to clear the conversation a user is in, and their schedule
+export function clearConversationContext(userId: string, guildId?: string, channelId?: string) {
+  const dialog = resetDialog(resolveSessionId(userId, guildId, channelId));
+  void archiveSessionThread(guildId, dialog?.threadId);
+  clearUserAvailability(userId); // Also clear schedule data
   console.log(`🧹 Cleared conversation context and schedule for ${userId}`);
 }
 
-// Function to end conversation session
-function endConversationSession(userId: string): void {
-  // Clear conversation context
-  userConversations.delete(userId);
-
-  // End recording session
-  userRecordingSessions.delete(userId);
-
-  // Clear audio buffer
-  userAudioBuffers.delete(userId);
-
-  console.log(`🏁 Session ended for ${userId}. Conversation complete.`);
+// Image types the vision model reads, by file extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Function to tell an uploaded image's MIME type: Discord's content type, else the file extension
+function imageMimeType(imageUrl: string, contentType?: string | null): string {
+  if (contentType?.startsWith('image/')) return contentType.split(';')[0].trim();
+  const extension = imageUrl.split(/[?#]/)[0].match(/\.(\w+)$/)?.[1].toLowerCase();
+  return (extension && IMAGE_MIME_TYPES[extension]) || 'image/jpeg';
 }
 
-// Function to process schedule images and extract available days
-export async function processScheduleImage(userId: string, imageUrl: string, guildId?: string) {
+// Function to process schedule images into structured weekly availability
+export async function processScheduleImage(
+  userId: string,
+  imageUrl: string,
+  guildId?: string,
+  channelId?: string,
+  contentType?: string | null
+) {
   try {
     console.log(`📸 Processing schedule image for ${userId}`);
     
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const timezone = resolveTimezone(userId, guildId);
     
     // Download the image from Discord URL
     const response = await fetch(imageUrl);
     const imageBuffer = await response.arrayBuffer();
     
-    // Convert to base64 for OpenAI API
+    // Convert to a base64 data URL for the vision model
     const base64Image = Buffer.from(imageBuffer).toString('base64');
     
-    // Use OpenAI Vision API to analyze the schedule
-    const visionResponse = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    // Ask the vision model to read the schedule into weekly blocks
+    const content = await getLlmProvider().complete({
+      task: 'vision',
       messages: [
         {
           role: 'system',
-          content: 'You are a helpful meeting scheduling assistant. Analyze this schedule image and extract the available days and times. Focus on identifying free time slots and busy periods. Return the information in a clear, structured format that can be used for scheduling meetings.',
+          content: 'You are a helpful meeting scheduling assistant. Read schedule and calendar images into structured availability. Use "recurring" for blocks that repeat every week and "exceptions" for blocks tied to a specific date. Mark each block busy or free and give a confidence between 0 and 1 reflecting how clearly it can be read.',
         },
         {
           role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Please analyze this schedule image and extract available meeting times. Format the response as: "Available: [days and times], Busy: [days and times], Best slots: [recommended times]"',
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`,
-              },
-            },
-          ],
+          content: `Extract the weekly availability from this schedule image. Times are in ${timezone}, today is ${new Date().toISOString().substring(0, 10)}.`,
+          images: [`data:${imageMimeType(imageUrl, contentType)};base64,${base64Image}`],
         },
       ],
-      max_tokens: 300,
+      jsonSchema: { name: 'weekly_availability', schema: AVAILABILITY_JSON_SCHEMA },
     });
     
-    const scheduleAnalysis = visionResponse.choices[0].message.content || 'Could not analyze the schedule image.';
-    console.log(`📅 Schedule analysis for ${userId}:`, scheduleAnalysis);
-    
-    // Update global schedule variable
-    currentUserSchedule.set(userId, scheduleAnalysis);
-    console.log(`📊 Updated global schedule for ${userId}:`, scheduleAnalysis);
-    
-    // Get existing conversation context
-    const existingContext = userConversations.get(userId) || {
-      transcript: '',
-      meetingTimes: [],
-    };
-    
-    // Add schedule information to context with a clear identifier
-    const scheduleInfo = `[SCHEDULE DATA]: ${scheduleAnalysis}`;
-    
-    // Check if schedule data already exists in context and update it, otherwise add new
-    let updatedTranscript = existingContext.transcript;
-    if (existingContext.transcript.includes('[SCHEDULE DATA]:')) {
-      // Replace existing schedule data with new analysis
-      updatedTranscript = existingContext.transcript.replace(
-        /\[SCHEDULE DATA\]:.*?(?=\n|$)/s,
-        scheduleInfo
-      );
-    } else {
-      // Add new schedule data to existing context
-      updatedTranscript = existingContext.transcript
-        ? existingContext.transcript + '\n' + scheduleInfo
-        : scheduleInfo;
+    const { availability, warnings } = validateAvailability(JSON.parse(content), timezone, 'image');
+    if (warnings.length > 0) {
+      console.warn(`⚠️ Schedule image warnings for ${userId}:`, warnings);
+    }
+    if (availability.recurring.length === 0 && availability.exceptions.length === 0) {
+      throw new Error('No availability blocks found in the image');
     }
     
-    const updatedContext = {
-      transcript: updatedTranscript,
-      meetingTimes: [...existingContext.meetingTimes],
-    };
-    
-    userConversations.set(userId, updatedContext);
-    
-    console.log(`📚 Updated context with schedule data for ${userId}:`, updatedContext);
-    console.log(`📊 Context length: ${updatedContext.transcript.split('\n').length} entries`);
+    setUserAvailability(userId, availability);
     
-    // Send analysis to text channel
+    // Send the table to the text channel so the user can correct it
     if (guildId) {
-      await sendToTextChannel(
+      const lowConfidence = [...availability.recurring, ...availability.exceptions].filter(
+        (block) => block.confidence < 0.6
+      ).length;
+      const message = buildAvailabilityMessage(
+        userId,
+        availability,
+        `📸 **Schedule read for <@${userId}>** - check it and press Edit if anything is wrong:`
+      );
+      await sendToSession(
+        resolveSessionId(userId, guildId, channelId),
         guildId,
-        `📸 **Schedule Image Analysis:**\n\n${scheduleAnalysis}\n\n📚 **Context Updated:** Schedule data has been ${existingContext.transcript.includes('[SCHEDULE DATA]:') ? 'updated' : 'added'} to your conversation context and will be used for meeting scheduling.\n\n📊 **Total Context Entries:** ${updatedContext.transcript.split('\n').length}`
+        {
+          ...message,
+          content: `${message.content}${
+            lowConfidence ? `\n⚠️ ${lowConfidence} block(s) were hard to read - please double-check them.` : ''
+          }`,
+        },
+        channelId
       );
     }
     
-    // Convert analysis to speech and play it
-    if (guildId) {
-      try {
-        const audioFile = await textToSpeech(`I've analyzed your schedule. ${scheduleAnalysis}`);
-        await playAudioInChannel(audioFile, guildId);
-      } catch (error) {
-        console.error('Error playing schedule analysis audio:', error);
-      }
-    }
-
-    return updatedContext;
+    // Let the conversation continue now that free time is known
+    await continueConversation(
+      resolveSessionId(userId, guildId, channelId),
+      { kind: 'schedule', source: 'image', speaker: getSpeaker(userId, guildId) },
+      guildId,
+      channelId
+    ).catch((error) => console.error('Error continuing conversation after schedule upload:', error));
+
+    return availability;
     
   } catch (error) {
     console.error('Error processing schedule image:', error);
@@ -755,20 +516,74 @@ export async function processScheduleImage(userId: string, imageUrl: string, gui
     if (guildId) {
       await sendToTextChannel(
         guildId,
-        `❌ **Error processing schedule image:** Could not analyze the image. Please make sure it's a clear schedule or calendar image.`
+        `❌ **Error processing schedule image:** Could not analyze the image. Please make sure it's a clear schedule or calendar image, or enter your availability with /availability edit.`,
+        channelId
       );
     }
     return null;
   }
 }
 
-// Function to get current user schedule
-export function getCurrentUserSchedule(userId: string): string | undefined {
-  return currentUserSchedule.get(userId);
-}
+// Function to import an .ics calendar file as the user's availability (parsed locally)
+export async function processCalendarFile(
+  userId: string,
+  fileUrl: string,
+  guildId?: string,
+  channelId?: string
+) {
+  try {
+    console.log(`🗓️ Importing calendar file for ${userId}`);
+    const timezone = resolveTimezone(userId, guildId);
+    // How many weeks of the calendar are turned into busy time
+    const importWeeks = parseInt(process.env.ICS_IMPORT_WEEKS || '2', 10) || 2;
+
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    const text = await response.text();
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      throw new Error('Not an iCalendar file');
+    }
 
-// Function to set current user schedule
-export function setCurrentUserSchedule(userId: string, schedule: string): void {
-  currentUserSchedule.set(userId, schedule);
-  console.log(`📅 Set schedule for ${userId}:`, schedule);
+    const rangeStart = new Date();
+    const rangeEnd = new Date(rangeStart.getTime() + importWeeks * 7 * 24 * 60 * 60 * 1000);
+    const busy = icsToBusyIntervals(text, rangeStart, rangeEnd, timezone);
+    const availability = availabilityFromBusyIntervals(busy, timezone, 'ics');
+
+    setUserAvailability(userId, availability);
+
+    if (guildId) {
+      await sendToSession(
+        resolveSessionId(userId, guildId, channelId),
+        guildId,
+        buildAvailabilityMessage(
+          userId,
+          availability,
+          `🗓️ **Calendar imported for <@${userId}>** - ${busy.length} busy block(s) over the next ${importWeeks} week(s):`
+        ),
+        channelId
+      );
+    }
+
+    // Let the conversation continue now that free time is known
+    await continueConversation(
+      resolveSessionId(userId, guildId, channelId),
+      { kind: 'schedule', source: 'ics', speaker: getSpeaker(userId, guildId) },
+      guildId,
+      channelId
+    ).catch((error) => console.error('Error continuing conversation after schedule upload:', error));
+
+    return availability;
+  } catch (error) {
+    console.error('Error importing calendar file:', error);
+    if (guildId) {
+      await sendToTextChannel(
+        guildId,
+        `❌ **Error importing calendar file:** Could not read the .ics file. Please export it again from your calendar app.`,
+        channelId
+      );
+    }
+    return null;
+  }
 }
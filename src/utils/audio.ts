@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+
+// Sample rate speech recognizers work at internally
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * Downmix 16-bit PCM to mono and reduce the sample rate by an integer factor,
+ * averaging each group of samples (e.g. Discord's 48 kHz stereo to 16 kHz mono)
+ */
+export function downmixPcm(
+  pcm: Buffer,
+  fromRate: number,
+  channels: number,
+  toRate = SPEECH_SAMPLE_RATE
+): Buffer {
+  const factor = fromRate / toRate;
+  if (!Number.isInteger(factor) || factor < 1) {
+    throw new Error(`Cannot resample ${fromRate} Hz to ${toRate} Hz`);
+  }
+
+  const groupSize = factor * channels; // Samples averaged into one output sample
+  const outputSamples = Math.floor(pcm.length / 2 / groupSize);
+  const output = Buffer.alloc(outputSamples * 2);
+
+  for (let i = 0; i < outputSamples; i++) {
+    let sum = 0;
+    const offset = i * groupSize * 2;
+    for (let j = 0; j < groupSize; j++) {
+      sum += pcm.readInt16LE(offset + j * 2);
+    }
+    output.writeInt16LE(Math.round(sum / groupSize), i * 2);
+  }
+  return output;
+}
+
+/**
+ * Wrap 16-bit PCM in a WAV header so it can be sent to speech recognizers
+ */
+export function pcmToWav(pcm: Buffer, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  const byteRate = sampleRate * channels * 2;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(channels * 2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Save a copy of some audio when debug mode is on (AUDIO_DEBUG=true, saved to
+ * AUDIO_DEBUG_DIR, default ./audio); does nothing otherwise
+ */
+export function saveDebugAudio(name: string, audio: Buffer): void {
+  if (process.env.AUDIO_DEBUG !== 'true') return;
+  try {
+    const directory = process.env.AUDIO_DEBUG_DIR || './audio';
+    fs.mkdirSync(directory, { recursive: true });
+    const filename = path.join(directory, name);
+    fs.writeFileSync(filename, audio);
+    console.log(`💾 Saved debug audio: ${filename}`);
+  } catch (error) {
+    console.error('Error saving debug audio:', error);
+  }
+}
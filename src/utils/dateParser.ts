@@ -0,0 +1,470 @@
+import type { TimeOfDayWindow } from '../services/scheduler';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+import type { ValidationResult } from './validators';
+
+// A range of whole days, optionally narrowed to a part of the day
+export interface DateRange {
+  start: Date; // Start of the first day in the user's timezone
+  end: Date; // End (exclusive) of the last day
+  timeOfDay?: TimeOfDayWindow; // e.g. 12:00-17:00 for "afternoon"
+}
+
+// Days are handled as UTC midnights so calendar arithmetic ignores DST
+type PlainDate = Date;
+
+interface Span {
+  first: PlainDate;
+  last: PlainDate; // Inclusive
+}
+
+type SpanResult = { ok: true; value: Span } | { ok: false; error: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1,
+  jan: 1,
+  february: 2,
+  feb: 2,
+  march: 3,
+  mar: 3,
+  april: 4,
+  apr: 4,
+  may: 5,
+  june: 6,
+  jun: 6,
+  july: 7,
+  jul: 7,
+  august: 8,
+  aug: 8,
+  september: 9,
+  sep: 9,
+  sept: 9,
+  october: 10,
+  oct: 10,
+  november: 11,
+  nov: 11,
+  december: 12,
+  dec: 12,
+};
+
+// Time-of-day windows for named parts of the day, shared with the LLM prompts
+export const PART_OF_DAY_WINDOWS = {
+  morning: { start: '08:00', end: '12:00' },
+  lunch: { start: '11:30', end: '14:00' },
+  afternoon: { start: '12:00', end: '17:00' },
+  evening: { start: '17:00', end: '21:00' },
+} satisfies Record<string, TimeOfDayWindow>;
+
+const PARTS_OF_DAY: [RegExp, TimeOfDayWindow][] = [
+  [/\b(?:in )?morning\b/, PART_OF_DAY_WINDOWS.morning],
+  [/\b(?:around )?(?:lunch ?time|lunch|noon|midday)\b/, PART_OF_DAY_WINDOWS.lunch],
+  [/\b(?:in )?afternoon\b/, PART_OF_DAY_WINDOWS.afternoon],
+  [/\b(?:in )?evening\b/, PART_OF_DAY_WINDOWS.evening],
+];
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).join('|');
+const MONTH_PATTERN = Object.keys(MONTHS).join('|');
+
+function plainDate(year: number, month: number, day: number): PlainDate {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: PlainDate, days: number): PlainDate {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Monday of the week containing the date
+function startOfWeek(date: PlainDate): PlainDate {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function lastDayOfMonth(year: number, month: number): PlainDate {
+  return new Date(Date.UTC(year, month, 0));
+}
+
+// Human-readable day, e.g. "Fri, Oct 23"
+function formatPlainDate(date: PlainDate): string {
+  return date.toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function single(date: PlainDate): SpanResult {
+  return { ok: true, value: { first: date, last: date } };
+}
+
+function span(first: PlainDate, last: PlainDate): SpanResult {
+  return { ok: true, value: { first, last } };
+}
+
+// Lowercase, unify dashes and drop filler words
+function normalize(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[–—]/g, ' - ')
+    .replace(/\btonight\b/g, 'today evening')
+    .replace(/[,.!?]/g, ' ')
+    .replace(/\b(?:the|on|of the|sometime|some time)\b/g, (word) => (word === 'of the' ? 'of' : ''))
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Remove "next week" style qualifiers; returns the week offset from the current week
+function extractWeekOffset(text: string): { text: string; weekOffset?: number } {
+  const patterns: [RegExp, number][] = [
+    [/\bweek after next\b/, 2],
+    [/\b(?:next|following|coming) week\b/, 1],
+    [/\bthis week\b/, 0],
+  ];
+  for (const [pattern, weekOffset] of patterns) {
+    if (pattern.test(text)) {
+      return { text: text.replace(pattern, ' ').replace(/\s+/g, ' ').trim(), weekOffset };
+    }
+  }
+  return { text };
+}
+
+// Explicit dates: 2025-06-21, June 21 (2025), 21 June, 6/21
+function parseExplicitDate(text: string, today: PlainDate): SpanResult | null {
+  const withYear = (month: number, day: number, year?: number): SpanResult => {
+    if (month < 1 || month > 12 || day < 1) {
+      return { ok: false, error: `"${text}" is not a valid date.` };
+    }
+    let resolvedYear = year ?? today.getUTCFullYear();
+    if (year === undefined && plainDate(resolvedYear, month, day).getTime() < today.getTime()) {
+      resolvedYear++; // "June 2" said in July means next year
+    }
+    if (day > lastDayOfMonth(resolvedYear, month).getUTCDate()) {
+      return { ok: false, error: `"${text}" is not a valid date.` };
+    }
+    return single(plainDate(resolvedYear, month, day));
+  };
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return withYear(+match[2], +match[3], +match[1]);
+
+  match = text.match(new RegExp(`^(${MONTH_PATTERN}) (\\d{1,2})(?: (\\d{4}))?$`));
+  if (match) return withYear(MONTHS[match[1]], +match[2], match[3] ? +match[3] : undefined);
+
+  match = text.match(new RegExp(`^(\\d{1,2}) (${MONTH_PATTERN})(?: (\\d{4}))?$`));
+  if (match) return withYear(MONTHS[match[2]], +match[1], match[3] ? +match[3] : undefined);
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+  if (match) {
+    const [first, second] = [+match[1], +match[2]];
+    const year = match[3] ? +match[3] : undefined;
+    if (first > 12) return withYear(second, first, year);
+    if (second > 12 || first === second) return withYear(first, second, year);
+    const monthFirst = withYear(first, second, year);
+    const dayFirst = withYear(second, first, year);
+    if (monthFirst.ok && dayFirst.ok) {
+      return {
+        ok: false,
+        error: `"${text}" is ambiguous - did you mean ${formatPlainDate(monthFirst.value.first)} or ${formatPlainDate(
+          dayFirst.value.first
+        )}? Write it as 2025-06-21 or "June 21".`,
+      };
+    }
+    return monthFirst.ok ? monthFirst : dayFirst;
+  }
+
+  return null;
+}
+
+// Expressions for a single day or a block of days, without range separators
+function parseSpan(input: string, today: PlainDate, inheritedWeekOffset?: number): SpanResult {
+  const { text, weekOffset: ownWeekOffset } = extractWeekOffset(input);
+  const weekOffset = ownWeekOffset ?? inheritedWeekOffset;
+  const thisMonday = startOfWeek(today);
+  const week = weekOffset !== undefined ? addDays(thisMonday, weekOffset * 7) : undefined;
+  let match: RegExpMatchArray | null;
+
+  // A whole week, or part of it
+  if (week) {
+    if (!text) return span(weekOffset === 0 ? today : week, addDays(week, 6));
+    if (/^(?:early|beginning of|start of)$/.test(text)) return span(week, addDays(week, 1));
+    if (/^(?:mid|middle of)$/.test(text)) return span(addDays(week, 1), addDays(week, 3));
+    if (/^(?:late|end of)$/.test(text)) return span(addDays(week, 3), addDays(week, 4));
+    if (text === 'weekend') return span(addDays(week, 5), addDays(week, 6));
+    match = text.match(new RegExp(`^(${WEEKDAY_PATTERN})$`));
+    if (match) return single(addDays(week, (WEEKDAYS[match[1]] + 6) % 7));
+    if (ownWeekOffset !== undefined) {
+      return { ok: false, error: `I don't understand "${input}".` };
+    }
+  }
+
+  switch (text) {
+    case 'today':
+      return single(today);
+    case 'tomorrow':
+      return single(addDays(today, 1));
+    case 'day after tomorrow':
+      return single(addDays(today, 2));
+    case 'weekend':
+    case 'this weekend': {
+      const saturday = addDays(thisMonday, 5);
+      return span(today.getTime() > saturday.getTime() ? today : saturday, addDays(thisMonday, 6));
+    }
+    case 'next weekend':
+      return span(addDays(thisMonday, 12), addDays(thisMonday, 13));
+    case 'end of week':
+    case 'end of this week':
+      return single(addDays(thisMonday, 4));
+  }
+
+  // Weekdays: "friday", "this friday", "next friday"
+  match = text.match(new RegExp(`^(?:(this|next|coming) )?(${WEEKDAY_PATTERN})$`));
+  if (match) {
+    const weekday = WEEKDAYS[match[2]];
+    const coming = addDays(today, (weekday - today.getUTCDay() + 7) % 7);
+    if (match[1] === 'next') {
+      // "next friday" on a Monday could mean this Friday or the one after
+      if (coming.getTime() !== today.getTime() && coming.getTime() < addDays(thisMonday, 7).getTime()) {
+        const following = addDays(coming, 7);
+        return {
+          ok: false,
+          error: `"${input}" is ambiguous - did you mean ${formatPlainDate(coming)} or ${formatPlainDate(
+            following
+          )}?`,
+        };
+      }
+      return single(coming.getTime() === today.getTime() ? addDays(today, 7) : coming);
+    }
+    return single(coming);
+  }
+
+  // Months: "this month", "next month", "end of month", "beginning of next month"
+  match = text.match(/^(?:(end|beginning|start|early|late|mid|middle) of |(early|late|mid) )?(this|next) month$|^end of month$/);
+  if (match) {
+    const part = match[1] || match[2] || (text === 'end of month' ? 'end' : undefined);
+    const offset = match[3] === 'next' ? 1 : 0;
+    const first = plainDate(today.getUTCFullYear(), today.getUTCMonth() + 1 + offset, 1);
+    const last = lastDayOfMonth(first.getUTCFullYear(), first.getUTCMonth() + 1);
+    switch (part) {
+      case 'end':
+        return single(last);
+      case 'late':
+        return span(addDays(last, -6), last);
+      case 'beginning':
+      case 'start':
+        return single(first);
+      case 'early':
+        return span(first, addDays(first, 6));
+      case 'mid':
+      case 'middle':
+        return span(addDays(first, 10), addDays(first, 19));
+      default:
+        return span(offset === 0 ? today : first, last);
+    }
+  }
+
+  // "in 3 days", "in 2 weeks"
+  match = text.match(/^in (\d{1,3}|a|one|two|three) (day|week)s?$/);
+  if (match) {
+    const amount = wordToNumber(match[1]);
+    return single(addDays(today, amount * (match[2] === 'week' ? 7 : 1)));
+  }
+
+  // "within 5 days", "next 2 weeks"
+  match = text.match(/^(?:within|next|over next|in next) (\d{1,3}|a|one|two|three) (day|week)s?$/);
+  if (match) {
+    const amount = wordToNumber(match[1]) * (match[2] === 'week' ? 7 : 1);
+    return span(today, addDays(today, Math.max(0, amount - 1)));
+  }
+
+  const explicit = parseExplicitDate(text, today);
+  if (explicit) return explicit;
+
+  return { ok: false, error: `I don't understand "${input}". Try "tomorrow", "next Monday", "Tue-Thu next week" or 2025-06-21.` };
+}
+
+function wordToNumber(word: string): number {
+  return { a: 1, one: 1, two: 2, three: 3 }[word] ?? parseInt(word, 10);
+}
+
+// Today's date in the user's timezone
+function zonedToday(now: Date, timezone: string): PlainDate {
+  const parts = getZonedParts(now, timezone);
+  return plainDate(parts.year, parts.month, parts.day);
+}
+
+// Split "X to Y", "X - Y", "between X and Y", "from X until Y" into both ends
+function splitRange(text: string): [string, string] | null {
+  const between = text.match(/^between (.+?) and (.+)$/);
+  if (between) return [between[1], between[2]];
+  const range = text.match(/^(?:from )?(.+?) (?:to|until|till|through|thru|-) (.+)$/);
+  if (range) return [range[1], range[2]];
+  return null;
+}
+
+/**
+ * Parse a natural-language date or date range such as "tomorrow afternoon",
+ * "next Monday", "end of month", "Tue-Thu next week" or "2025-06-21",
+ * relative to the current time in the user's timezone. Ambiguous input
+ * ("06/07", "next Friday" early in the week) is rejected with a question.
+ */
+export function parseDateRange(
+  input: string | null | undefined,
+  timezone: string,
+  now: Date = new Date()
+): ValidationResult<DateRange> {
+  let text = normalize(input || '');
+  if (!text) {
+    return { ok: false, error: 'A date is required.' };
+  }
+
+  // Part of the day applies to the whole range
+  let timeOfDay: TimeOfDayWindow | undefined;
+  for (const [pattern, window] of PARTS_OF_DAY) {
+    if (pattern.test(text)) {
+      timeOfDay = window;
+      text = text.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+      break;
+    }
+  }
+  if (!text && timeOfDay) text = 'today';
+
+  const today = zonedToday(now, timezone);
+  let result: SpanResult;
+  // Space out dashes between words ("tue-thu") but keep ISO dates intact
+  const parts = splitRange(text.replace(/(?<=[a-z])\s*-\s*|\s*-\s*(?=[a-z])/g, ' - '));
+  if (parts) {
+    // "Tue - Thu next week": the start inherits the week of the end
+    const end = parseSpan(parts[1].trim(), today);
+    const startWeek = extractWeekOffset(parts[1]).weekOffset;
+    const start = parseSpan(parts[0].trim(), today, startWeek);
+    if (!start.ok) return start;
+    if (!end.ok) return end;
+    if (end.value.last.getTime() < start.value.first.getTime()) {
+      return { ok: false, error: `The end of "${input}" is before its start.` };
+    }
+    result = span(start.value.first, end.value.last);
+  } else {
+    result = parseSpan(text, today);
+  }
+  if (!result.ok) return result;
+
+  let { first, last } = result.value;
+  if (last.getTime() < today.getTime()) {
+    return { ok: false, error: `"${input}" is in the past.` };
+  }
+  if (first.getTime() < today.getTime()) first = today;
+
+  return {
+    ok: true,
+    value: {
+      start: zonedTimeToUtc(first.getUTCFullYear(), first.getUTCMonth() + 1, first.getUTCDate(), 0, 0, timezone),
+      end: zonedTimeToUtc(last.getUTCFullYear(), last.getUTCMonth() + 1, last.getUTCDate() + 1, 0, 0, timezone),
+      timeOfDay,
+    },
+  };
+}
+
+// Short words that are too common in speech to count as dates on their own
+const AMBIGUOUS_WORDS = new Set(['sun', 'sat', 'wed', 'mar', 'may', 'mon', 'jun', 'today']);
+
+/**
+ * Find the longest date phrase in free text (e.g. a voice transcript).
+ * Returns the range, a question when the phrase is ambiguous, or nothing.
+ */
+export function findDateRangeInText(
+  text: string,
+  timezone: string,
+  now: Date = new Date()
+): { range?: DateRange; question?: string } {
+  const words = normalize(text).split(' ').filter((word) => word);
+  const MAX_PHRASE_WORDS = 8;
+
+  for (let length = Math.min(MAX_PHRASE_WORDS, words.length); length >= 1; length--) {
+    for (let index = 0; index + length <= words.length; index++) {
+      const phrase = words.slice(index, index + length).join(' ');
+      if (length === 1 && AMBIGUOUS_WORDS.has(phrase)) continue;
+      if (!/[a-z0-9]/.test(phrase) || /^\d+$/.test(phrase)) continue;
+
+      const result = parseDateRange(phrase, timezone, now);
+      if (result.ok) return { range: result.value };
+      if (result.error.includes('ambiguous') || result.error.includes('in the past')) {
+        return { question: result.error };
+      }
+    }
+  }
+
+  // "today" alone is still useful when nothing more specific was said
+  if (words.includes('today')) {
+    const result = parseDateRange('today', timezone, now);
+    if (result.ok) return { range: result.value };
+  }
+  return {};
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  ten: 10,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  'forty five': 45,
+  'forty-five': 45,
+  fifty: 50,
+  sixty: 60,
+  ninety: 90,
+};
+
+/**
+ * Find a meeting length such as "30 minutes", "an hour", "half an hour" or
+ * "1.5 hours" in free text and return it in minutes. Offsets like "in 30
+ * minutes" are not lengths and are skipped.
+ */
+export function findDurationInText(text: string): number | undefined {
+  const lower = text.toLowerCase();
+
+  if (/\b(?:an? )?hour and a half\b|\b(?:one|1) and a half hours?\b/.test(lower)) return 90;
+  if (/\bhalf (?:an )?hour\b/.test(lower)) return 30;
+  if (/\bquarter (?:of an )?hour\b/.test(lower)) return 15;
+
+  const number = `(\\d+(?:\\.\\d+)?|forty[ -]five|${Object.keys(NUMBER_WORDS)
+    .filter((word) => !word.includes('five') || word === 'five')
+    .join('|')})`;
+  const pattern = new RegExp(`(\\bin\\s+)?\\b${number}[ -]?(minutes?|mins?|m|hours?|hrs?|h)\\b`, 'g');
+
+  for (const match of lower.matchAll(pattern)) {
+    if (match[1]) continue;
+    const amount = NUMBER_WORDS[match[2]] ?? parseFloat(match[2]);
+    const minutes = Math.round(/^h/.test(match[3]) ? amount * 60 : amount);
+    if (minutes >= 5 && minutes <= 8 * 60) return minutes;
+  }
+  return undefined;
+}
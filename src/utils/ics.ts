@@ -0,0 +1,534 @@
+import { Interval, mergeIntervals } from './intervals';
+import { getZonedParts, isValidTimezone, zonedTimeToUtc } from './timezone';
+
+// One content line such as DTSTART;TZID=Europe/Berlin:20250623T090000
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Parsed RRULE; only the parts needed to expand busy time are kept
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+// A VEVENT reduced to what matters for availability
+export interface IcsEvent {
+  uid?: string;
+  summary?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone: string; // Timezone the event's wall-clock times are written in
+  rrule?: RecurrenceRule;
+  exdates: Date[];
+  recurrenceId?: Date;
+  cancelled: boolean;
+  transparent: boolean; // TRANSP:TRANSPARENT events do not block time
+}
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety limit so a malformed rule cannot loop forever
+const MAX_RECURRENCE_PERIODS = 10000;
+
+/**
+ * Split iCalendar text into logical lines, joining folded continuation lines
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim());
+}
+
+/**
+ * Parse a content line into its name, parameters and value. Parameter values
+ * may be quoted and contain ':' or ';'.
+ */
+export function parseProperty(line: string): IcsProperty {
+  const params: Record<string, string> = {};
+  let index = 0;
+  let inQuotes = false;
+  let nameEnd = -1;
+
+  // Find the ':' that separates name and parameters from the value
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === ';' && nameEnd === -1) nameEnd = index;
+    if (!inQuotes && char === ':') break;
+  }
+
+  const head = line.substring(0, index);
+  const value = line.substring(index + 1);
+  const name = (nameEnd === -1 ? head : head.substring(0, nameEnd)).toUpperCase();
+
+  if (nameEnd !== -1) {
+    const paramPattern = /;([^=;]+)=("[^"]*"|[^;]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = paramPattern.exec(head))) {
+      params[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name, params, value };
+}
+
+// Map a TZID to an IANA zone, tolerating prefixes like /mozilla.org/.../Europe/Berlin
+function resolveTzid(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  if (isValidTimezone(tzid)) return tzid;
+  const suffix = tzid.match(/([A-Za-z_]+\/[A-Za-z0-9_+\-]+(?:\/[A-Za-z0-9_+\-]+)?)$/);
+  if (suffix && isValidTimezone(suffix[1])) return suffix[1];
+  return fallback;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC values end in Z, others are read in
+ * the given timezone (floating times use it too).
+ */
+export function parseIcsDate(value: string, timezone: string): { date: Date; allDay: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  if (hour === undefined) {
+    return {
+      date: zonedTimeToUtc(+year, +month, +day, 0, 0, timezone),
+      allDay: true,
+    };
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second || 0))),
+      allDay: false,
+    };
+  }
+  return {
+    date: zonedTimeToUtc(+year, +month, +day, +hour, +minute, timezone),
+    allDay: false,
+  };
+}
+
+/**
+ * Parse an ISO 8601 duration such as PT1H30M or P1D into milliseconds
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (+(weeks || 0) * 7 + +(days || 0)) * DAY_MS +
+    (+(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse an RRULE value such as FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20251231T000000Z
+ */
+export function parseRecurrenceRule(value: string, timezone: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue;
+  }
+
+  const freq = parts.FREQ?.toUpperCase();
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    return null;
+  }
+
+  const byDay = (parts.BYDAY || '')
+    .split(',')
+    .map((day) => day.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+    .filter((day): day is RegExpMatchArray => day !== null)
+    .map((day) => ({
+      weekday: ICS_WEEKDAYS.indexOf(day[2]),
+      ordinal: day[1] ? parseInt(day[1], 10) : undefined,
+    }));
+  const numbers = (list?: string) =>
+    (list || '')
+      .split(',')
+      .map((item) => parseInt(item, 10))
+      .filter((item) => !isNaN(item) && item !== 0);
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL, timezone)?.date : undefined,
+    byDay,
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH).filter((month) => month >= 1 && month <= 12),
+  };
+}
+
+/**
+ * Parse every VEVENT in an iCalendar file. Times without a usable TZID are
+ * read in the given timezone.
+ */
+export function parseIcsEvents(text: string, timezone: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0; // Nested components inside a VEVENT (e.g. VALARM)
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (current && property.name === 'BEGIN') {
+      depth++;
+    } else if (current && property.name === 'END' && depth > 0) {
+      depth--;
+    } else if (current && property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const event = toIcsEvent(current, timezone);
+      if (event) events.push(event);
+      current = null;
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+// Build an event from its properties; returns null without a usable DTSTART
+function toIcsEvent(properties: IcsProperty[], fallbackTimezone: string): IcsEvent | null {
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const dtstart = find('DTSTART');
+  if (!dtstart) return null;
+
+  const timezone = resolveTzid(dtstart.params.TZID, fallbackTimezone);
+  const start = parseIcsDate(dtstart.value, timezone);
+  if (!start) return null;
+
+  let end: Date | undefined;
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  if (dtend) {
+    end = parseIcsDate(dtend.value, resolveTzid(dtend.params.TZID, fallbackTimezone))?.date;
+  } else if (duration) {
+    const ms = parseIcsDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end) {
+    // RFC 5545: an all-day event without an end lasts one day, a timed one has no length
+    end = start.allDay ? nextZonedDay(start.date, timezone) : start.date;
+  }
+
+  const exdates: Date[] = [];
+  for (const exdate of properties.filter((property) => property.name === 'EXDATE')) {
+    const exdateTimezone = resolveTzid(exdate.params.TZID, fallbackTimezone);
+    for (const value of exdate.value.split(',')) {
+      const parsed = parseIcsDate(value, exdateTimezone);
+      if (parsed) exdates.push(parsed.date);
+    }
+  }
+
+  const rrule = find('RRULE');
+  const recurrenceId = find('RECURRENCE-ID');
+
+  return {
+    uid: find('UID')?.value,
+    summary: find('SUMMARY')?.value,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    timezone,
+    rrule: rrule ? parseRecurrenceRule(rrule.value, timezone) || undefined : undefined,
+    exdates,
+    recurrenceId: recurrenceId
+      ? parseIcsDate(recurrenceId.value, resolveTzid(recurrenceId.params.TZID, fallbackTimezone))?.date
+      : undefined,
+    cancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    transparent: find('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+  };
+}
+
+function nextZonedDay(date: Date, timezone: string): Date {
+  const parts = getZonedParts(date, timezone);
+  return zonedTimeToUtc(parts.year, parts.month, parts.day + 1, 0, 0, timezone);
+}
+
+// Calendar date helpers working on UTC-based plain dates
+function plainDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Days of a month matching BYMONTHDAY / BYDAY, or the given default day
+function monthDays(year: number, month: number, rule: RecurrenceRule, defaultDay: number): Date[] {
+  const total = daysInMonth(year, month);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : total + day + 1))
+      .filter((day) => day >= 1 && day <= total)
+      .map((day) => plainDate(year, month, day));
+  }
+
+  if (rule.byDay.length > 0) {
+    const dates: Date[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (plainDate(year, month, day).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) {
+        matching.forEach((day) => dates.push(plainDate(year, month, day)));
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) dates.push(plainDate(year, month, day));
+      }
+    }
+    return dates;
+  }
+
+  return defaultDay <= total ? [plainDate(year, month, defaultDay)] : [];
+}
+
+// Candidate dates of one recurrence period, in ascending order
+function periodDates(rule: RecurrenceRule, first: Date, period: number): Date[] {
+  const year = first.getUTCFullYear();
+  const month = first.getUTCMonth() + 1;
+  const day = first.getUTCDate();
+  let dates: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [plainDate(year, month, day + period * rule.interval)];
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday (the RFC 5545 default for WKST)
+      const weekStart = plainDate(year, month, day - ((first.getUTCDay() + 6) % 7) + period * 7 * rule.interval);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((byDay) => byDay.weekday) : [first.getUTCDay()];
+      dates = weekdays.map(
+        (weekday) => new Date(weekStart.getTime() + ((weekday + 6) % 7) * DAY_MS)
+      );
+      break;
+    }
+    case 'MONTHLY': {
+      const target = plainDate(year, month + period * rule.interval, 1);
+      dates = monthDays(target.getUTCFullYear(), target.getUTCMonth() + 1, rule, day);
+      break;
+    }
+    case 'YEARLY': {
+      const targetYear = year + period * rule.interval;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [month];
+      dates = months.flatMap((targetMonth) => monthDays(targetYear, targetMonth, rule, day));
+      break;
+    }
+  }
+
+  return dates.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Expand an event into the occurrences that overlap the range. Recurring
+ * events keep their wall-clock time across DST changes in their timezone.
+ */
+export function expandEvent(event: IcsEvent, rangeStart: Date, rangeEnd: Date): Interval[] {
+  const durationMs = event.end.getTime() - event.start.getTime();
+  const inRange = (interval: Interval) =>
+    interval.end.getTime() > rangeStart.getTime() && interval.start.getTime() < rangeEnd.getTime();
+
+  if (!event.rrule) {
+    const single = { start: event.start, end: event.end };
+    return inRange(single) ? [single] : [];
+  }
+
+  const rule = event.rrule;
+  const startParts = getZonedParts(event.start, event.timezone);
+  const first = plainDate(startParts.year, startParts.month, startParts.day);
+  const excluded = new Set(event.exdates.map((date) => date.getTime()));
+  const occurrences: Interval[] = [];
+  let count = 0;
+
+  // Without COUNT, old daily and weekly series can skip straight to the range
+  let firstPeriod = 0;
+  if (rule.count === undefined && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    const periodMs = (rule.freq === 'DAILY' ? 1 : 7) * rule.interval * DAY_MS;
+    const lookBackMs = durationMs + 7 * DAY_MS;
+    firstPeriod = Math.max(0, Math.floor((rangeStart.getTime() - lookBackMs - first.getTime()) / periodMs));
+  }
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    const dates = periodDates(rule, first, period);
+    // Plain dates are UTC midnights, so allow a day of slack for the timezone
+    if (dates.length > 0 && dates[0].getTime() > rangeEnd.getTime() + DAY_MS) break;
+
+    for (const date of dates) {
+      if (date.getTime() < first.getTime()) continue;
+      const start = zonedTimeToUtc(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate(),
+        startParts.hour,
+        startParts.minute,
+        event.timezone
+      );
+      if (rule.until && start.getTime() > rule.until.getTime()) return occurrences;
+      if (rule.count !== undefined && count >= rule.count) return occurrences;
+      count++;
+      if (start.getTime() >= rangeEnd.getTime()) return occurrences;
+      if (excluded.has(start.getTime())) continue;
+
+      const occurrence = { start, end: new Date(start.getTime() + durationMs) };
+      if (inRange(occurrence)) occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Turn an iCalendar file into merged busy intervals over a range. Cancelled
+ * and transparent (free) events are ignored; moved occurrences
+ * (RECURRENCE-ID) replace the original instance.
+ */
+export function icsToBusyIntervals(
+  text: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timezone: string
+): Interval[] {
+  const events = parseIcsEvents(text, timezone);
+
+  // Instances moved or cancelled individually are excluded from their series
+  for (const override of events.filter((event) => event.recurrenceId)) {
+    const master = events.find((event) => event.uid === override.uid && event.rrule && !event.recurrenceId);
+    master?.exdates.push(override.recurrenceId as Date);
+  }
+
+  const busy = events
+    .filter((event) => !event.cancelled && !event.transparent)
+    .flatMap((event) => expandEvent(event, rangeStart, rangeEnd));
+
+  return mergeIntervals(busy);
+}
+
+// iTIP method of an exported invitation
+export type IcsMethod = 'REQUEST' | 'CANCEL';
+
+// A person on an exported invitation
+export interface IcsPerson {
+  name?: string;
+  email: string;
+  optional?: boolean;
+}
+
+// Everything needed to write a single-event invitation
+export interface IcsInvite {
+  uid: string; // Must stay the same across updates of one meeting
+  sequence: number; // Incremented on every reschedule or cancellation
+  method: IcsMethod;
+  title: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  organizer: IcsPerson;
+  attendees: IcsPerson[];
+}
+
+const ICS_PRODUCT_ID = '-//Discord Scheduler Assistant//EN';
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Quote parameter values that contain separators
+function quoteParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'");
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// Format an instant as a UTC DATE-TIME, e.g. 20250623T070000Z
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Fold a content line at 75 octets without splitting UTF-8 characters
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatPerson(name: string, person: IcsPerson, extra: string[] = []): string {
+  const params = [...extra];
+  if (person.name) params.unshift(`CN=${quoteParam(person.name)}`);
+  return `${name}${params.map((param) => `;${param}`).join('')}:mailto:${person.email}`;
+}
+
+/**
+ * Write an RFC 5545 calendar with one event, ready to attach as an .ics file.
+ * METHOD:REQUEST creates or updates the meeting, METHOD:CANCEL removes it.
+ */
+export function buildIcsInvite(invite: IcsInvite): string {
+  const cancelled = invite.method === 'CANCEL';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${invite.method}`,
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(invite.start)}`,
+    `DTEND:${formatIcsDate(invite.end)}`,
+    `SUMMARY:${escapeText(invite.title)}`,
+  ];
+  if (invite.description) lines.push(`DESCRIPTION:${escapeText(invite.description)}`);
+  if (invite.location) lines.push(`LOCATION:${escapeText(invite.location)}`);
+  if (invite.url) lines.push(`URL:${invite.url}`);
+  lines.push(formatPerson('ORGANIZER', invite.organizer));
+  for (const attendee of invite.attendees) {
+    lines.push(
+      formatPerson('ATTENDEE', attendee, [
+        `ROLE=${attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'}`,
+        ...(cancelled ? [] : ['PARTSTAT=NEEDS-ACTION', 'RSVP=TRUE']),
+      ])
+    );
+  }
+  lines.push(`STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,70 @@
+// A half-open time interval [start, end)
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Check whether two intervals overlap
+ */
+export function overlaps(a: Interval, b: Interval): boolean {
+  return a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+}
+
+/**
+ * Sort intervals and merge the ones that overlap or touch
+ */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter((interval) => interval.end.getTime() > interval.start.getTime())
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end.getTime()) {
+      if (interval.end.getTime() > last.end.getTime()) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Remove every busy interval from the window and return what is left
+ */
+export function subtractIntervals(window: Interval, busy: Interval[]): Interval[] {
+  const free: Interval[] = [];
+  let cursor = window.start.getTime();
+  const windowEnd = window.end.getTime();
+
+  for (const interval of mergeIntervals(busy)) {
+    const start = interval.start.getTime();
+    const end = interval.end.getTime();
+    if (end <= cursor) continue;
+    if (start >= windowEnd) break;
+    if (start > cursor) {
+      free.push({ start: new Date(cursor), end: new Date(start) });
+    }
+    cursor = Math.max(cursor, end);
+  }
+
+  if (cursor < windowEnd) {
+    free.push({ start: new Date(cursor), end: new Date(windowEnd) });
+  }
+  return free;
+}
+
+/**
+ * Grow each interval by the given number of minutes on both sides
+ */
+export function padIntervals(intervals: Interval[], minutes: number): Interval[] {
+  const padding = minutes * 60 * 1000;
+  return intervals.map((interval) => ({
+    start: new Date(interval.start.getTime() - padding),
+    end: new Date(interval.end.getTime() + padding),
+  }));
+}
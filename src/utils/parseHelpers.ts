@@ -0,0 +1,265 @@
+import { isValidTimezone, zonedTimeToUtc } from './timezone';
+
+// A single proposed or confirmed meeting slot
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+  timezone: string; // IANA zone the slot was proposed in
+  room?: string;
+  confidence: number; // 0..1, how sure the scheduler is about this slot
+  unavailable?: string[]; // Optional attendees who cannot make this slot
+}
+
+// Structured scheduler answer: slots plus optional conversational text
+export interface MeetingSuggestions {
+  slots: TimeSlot[];
+  followUp?: string;
+  summary?: string;
+}
+
+// Fallback values applied when the model omits a field
+export interface SlotDefaults {
+  timezone: string;
+  durationMinutes?: number;
+  room?: string;
+}
+
+const DEFAULT_DURATION_MINUTES = 30;
+const DEFAULT_CONFIDENCE = 0.5;
+
+/**
+ * JSON schema for a single slot, as sent to the model in strict mode
+ */
+export const TIME_SLOT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    start: { type: 'string', description: 'ISO 8601 start time with offset' },
+    end: { type: 'string', description: 'ISO 8601 end time with offset' },
+    timezone: { type: 'string', description: 'IANA timezone name' },
+    room: { type: ['string', 'null'] },
+    confidence: { type: 'number', description: 'Between 0 and 1' },
+  },
+  required: ['start', 'end', 'timezone', 'room', 'confidence'],
+  additionalProperties: false,
+};
+
+/**
+ * JSON schema for the full scheduler answer
+ */
+export const MEETING_SUGGESTIONS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    slots: { type: 'array', items: TIME_SLOT_JSON_SCHEMA },
+    followUp: { type: ['string', 'null'] },
+    summary: { type: ['string', 'null'] },
+  },
+  required: ['slots', 'followUp', 'summary'],
+  additionalProperties: false,
+};
+
+// Matches ISO 8601 date-times such as 2025-06-21T14:00:00+07:00 or 2025-06-21 14:00Z
+const ISO_DATE_TIME_PATTERN =
+  /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g;
+
+// Try to read a JSON value from model output, tolerating code fences and prose
+function extractJson(raw: string): unknown {
+  const text = raw.trim();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to the more tolerant strategies
+  }
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1]);
+    } catch {
+      // Fall through
+    }
+  }
+
+  // Take the outermost object or array embedded in surrounding prose
+  for (const [open, close] of [
+    ['{', '}'],
+    ['[', ']'],
+  ]) {
+    const first = text.indexOf(open);
+    const last = text.lastIndexOf(close);
+    if (first !== -1 && last > first) {
+      try {
+        return JSON.parse(text.substring(first, last + 1));
+      } catch {
+        // Try the next shape
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Matches a local ISO date-time without offset, e.g. 2025-06-21T14:00
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+// Parse a date value; local times without an offset are read in the given timezone
+function toDate(value: unknown, timezone: string): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const local = typeof value === 'string' ? value.trim().match(LOCAL_DATE_TIME_PATTERN) : null;
+  if (local) {
+    const [, year, month, day, hour, minute] = local.map((part) => parseInt(part, 10));
+    return zonedTimeToUtc(year, month, day, hour, minute, timezone);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function clampConfidence(value: unknown): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(number)) return DEFAULT_CONFIDENCE;
+  return Math.min(1, Math.max(0, number));
+}
+
+// Normalize one loosely-shaped slot object into a TimeSlot
+function normalizeSlot(value: unknown, defaults: SlotDefaults): TimeSlot | null {
+  if (!value || typeof value !== 'object') {
+    const start = toDate(value, defaults.timezone);
+    return start ? slotFromStart(start, defaults) : null;
+  }
+
+  const fields = value as Record<string, unknown>;
+  const timezone =
+    typeof fields.timezone === 'string' && isValidTimezone(fields.timezone)
+      ? fields.timezone
+      : defaults.timezone;
+  const start = toDate(fields.start ?? fields.startTime ?? fields.from, timezone);
+  if (!start) return null;
+
+  const end = toDate(fields.end ?? fields.endTime ?? fields.to, timezone);
+  const durationMinutes = defaults.durationMinutes || DEFAULT_DURATION_MINUTES;
+
+  return {
+    start,
+    end:
+      end && end.getTime() > start.getTime()
+        ? end
+        : new Date(start.getTime() + durationMinutes * 60 * 1000),
+    timezone,
+    room: typeof fields.room === 'string' && fields.room ? fields.room : defaults.room,
+    confidence: clampConfidence(fields.confidence),
+  };
+}
+
+function slotFromStart(start: Date, defaults: SlotDefaults, end?: Date): TimeSlot {
+  const durationMinutes = defaults.durationMinutes || DEFAULT_DURATION_MINUTES;
+  return {
+    start,
+    end: end || new Date(start.getTime() + durationMinutes * 60 * 1000),
+    timezone: defaults.timezone,
+    room: defaults.room,
+    confidence: DEFAULT_CONFIDENCE,
+  };
+}
+
+// Last-resort parser: scan each line for one or two ISO date-times
+function parseSlotsFromText(raw: string, defaults: SlotDefaults): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+
+  for (const line of raw.split('\n')) {
+    const matches = line.match(ISO_DATE_TIME_PATTERN);
+    if (!matches) continue;
+
+    const start = toDate(matches[0].replace(' ', 'T'), defaults.timezone);
+    if (!start) continue;
+
+    const end = matches[1] ? toDate(matches[1].replace(' ', 'T'), defaults.timezone) : null;
+    slots.push(
+      slotFromStart(start, defaults, end && end.getTime() > start.getTime() ? end : undefined)
+    );
+  }
+
+  return slots;
+}
+
+/**
+ * Parse time slots from model output. Accepts strict JSON, JSON wrapped in
+ * prose or code fences, and finally plain text containing ISO 8601 times.
+ */
+export function parseTimeSlots(raw: string, defaults: SlotDefaults): TimeSlot[] {
+  return parseMeetingSuggestions(raw, defaults).slots;
+}
+
+/**
+ * Parse the full scheduler answer (slots, follow-up question and summary)
+ */
+export function parseMeetingSuggestions(
+  raw: string,
+  defaults: SlotDefaults
+): MeetingSuggestions {
+  const json = extractJson(raw);
+
+  if (json !== undefined) {
+    const fields: Record<string, unknown> =
+      json && typeof json === 'object' && !Array.isArray(json) ? (json as Record<string, unknown>) : {};
+    const items = Array.isArray(json) ? json : fields.slots ?? fields.suggestions;
+    if (Array.isArray(items)) {
+      const slots = items
+        .map((item: unknown) => normalizeSlot(item, defaults))
+        .filter((slot): slot is TimeSlot => slot !== null);
+
+      return {
+        slots,
+        followUp: typeof fields.followUp === 'string' && fields.followUp ? fields.followUp : undefined,
+        summary: typeof fields.summary === 'string' && fields.summary ? fields.summary : undefined,
+      };
+    }
+  }
+
+  const followUp = raw.match(/follow-?up:\s*(.+)/i);
+  return {
+    slots: parseSlotsFromText(raw, defaults),
+    followUp: followUp ? followUp[1].trim() : undefined,
+  };
+}
+
+/**
+ * Format a slot for display, e.g. "Mon, Jun 23, 14:00 – 14:30 (Asia/Bangkok) · Room A"
+ */
+export function formatTimeSlot(slot: TimeSlot): string {
+  const dateFormat = new Intl.DateTimeFormat('en-US', {
+    timeZone: slot.timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+  const timeFormat = new Intl.DateTimeFormat('en-US', {
+    timeZone: slot.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+  const room = slot.room ? ` · ${slot.room}` : '';
+  const unavailable = slot.unavailable?.length
+    ? ` · ⚠️ ${slot.unavailable.join(', ')} can't make it`
+    : '';
+  return `${dateFormat.format(slot.start)} – ${timeFormat.format(slot.end)} (${slot.timezone})${room}${unavailable}`;
+}
+
+/**
+ * Format a slot with Discord timestamps so every viewer sees their own local time
+ */
+export function formatDiscordTimeSlot(slot: TimeSlot): string {
+  const start = Math.floor(slot.start.getTime() / 1000);
+  const end = Math.floor(slot.end.getTime() / 1000);
+  const room = slot.room ? ` · ${slot.room}` : '';
+  const unavailable = slot.unavailable?.length
+    ? ` · ⚠️ ${slot.unavailable.join(', ')} can't make it`
+    : '';
+  return `<t:${start}:F> – <t:${end}:t> (<t:${start}:R>)${room}${unavailable}`;
+}
@@ -0,0 +1,115 @@
+// Calendar fields of an instant as seen in a particular timezone
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a timezone name supported by the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock fields of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in minutes
+function getOffsetMinutes(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to a UTC instant
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  // Apply the offset twice so times near a DST transition settle correctly
+  const first = guess - getOffsetMinutes(new Date(guess), timezone) * 60000;
+  const second = guess - getOffsetMinutes(new Date(first), timezone) * 60000;
+  return new Date(second);
+}
+
+/**
+ * Start of the calendar day containing the instant, in the given timezone
+ */
+export function startOfZonedDay(date: Date, timezone: string): Date {
+  const parts = getZonedParts(date, timezone);
+  return zonedTimeToUtc(parts.year, parts.month, parts.day, 0, 0, timezone);
+}
+
+/**
+ * End (exclusive) of the calendar day containing the instant, in the given timezone
+ */
+export function endOfZonedDay(date: Date, timezone: string): Date {
+  const parts = getZonedParts(date, timezone);
+  return zonedTimeToUtc(parts.year, parts.month, parts.day + 1, 0, 0, timezone);
+}
+
+/**
+ * Parse "HH:mm" into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || hours * 60 + minutes > 24 * 60) return null;
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,254 @@
+// Voice activity detection over 16-bit little-endian PCM, as decoded from Discord's Opus stream
+
+export interface VadOptions {
+  sampleRate: number;
+  channels: number;
+  frameMs: number; // Analysis frame length
+  minSpeechLevel: number; // Frames quieter than this RMS are never speech
+  startRatio: number; // A frame is speech when louder than noise floor * startRatio...
+  continueRatio: number; // ...and stays speech while louder than noise floor * continueRatio
+  startFrames: number; // Consecutive speech frames needed to start an utterance
+  hangoverMs: number; // Silence allowed inside an utterance before it ends
+  preRollMs: number; // Audio kept from before speech was detected
+  postRollMs: number; // Silence kept after the last speech frame
+  minUtteranceMs: number; // Shorter bursts (clicks, coughs) are dropped
+  maxUtteranceMs: number; // Longer speech is split so transcription starts in time
+  initialNoiseFloor: number;
+  noiseWindowMs: number; // The background level is the quietest frame in this window
+  noiseAdaptation: number; // How fast the noise floor follows background level (0-1)
+}
+
+export type VadState = 'silence' | 'maybe-speech' | 'speech' | 'hangover';
+
+// A finished stretch of speech
+export interface Utterance {
+  audio: Buffer;
+  startMs: number; // Offset from the start of the stream
+  durationMs: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
+
+/**
+ * Defaults for 48 kHz stereo Discord audio; every threshold can be tuned with
+ * VAD_* variables, read on each call so values from .env are picked up
+ */
+export function getDefaultVadOptions(): VadOptions {
+  return {
+    sampleRate: 48000,
+    channels: 2,
+    frameMs: 20,
+    minSpeechLevel: envNumber('VAD_MIN_SPEECH_LEVEL', 300),
+    startRatio: envNumber('VAD_START_RATIO', 3),
+    continueRatio: envNumber('VAD_CONTINUE_RATIO', 2),
+    startFrames: envNumber('VAD_START_FRAMES', 3),
+    hangoverMs: envNumber('VAD_HANGOVER_MS', 800),
+    preRollMs: envNumber('VAD_PRE_ROLL_MS', 300),
+    postRollMs: envNumber('VAD_POST_ROLL_MS', 300),
+    minUtteranceMs: envNumber('VAD_MIN_UTTERANCE_MS', 300),
+    maxUtteranceMs: envNumber('VAD_MAX_UTTERANCE_MS', 30000),
+    initialNoiseFloor: envNumber('VAD_INITIAL_NOISE_FLOOR', 100),
+    noiseWindowMs: envNumber('VAD_NOISE_WINDOW_MS', 3000),
+    noiseAdaptation: envNumber('VAD_NOISE_ADAPTATION', 0.05),
+  };
+}
+
+/**
+ * Duration of a 16-bit PCM buffer in milliseconds
+ */
+export function pcmDurationMs(bytes: number, sampleRate = 48000, channels = 2): number {
+  return (bytes / (sampleRate * channels * 2)) * 1000;
+}
+
+/**
+ * Root mean square level of a 16-bit PCM frame (all channels together)
+ */
+export function frameRms(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples * 2; i += 2) {
+    const sample = frame.readInt16LE(i);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+export interface VoiceActivityDetector {
+  readonly state: VadState;
+  readonly noiseFloor: number;
+  // Feed decoded PCM of any length; returns the utterances it completed
+  push(chunk: Buffer): Utterance[];
+  // End of stream: return the utterance in progress, if long enough
+  flush(): Utterance | undefined;
+}
+
+/**
+ * Create a speech/silence state machine:
+ *
+ *   silence -> maybe-speech after a loud frame, back if it does not last
+ *   maybe-speech -> speech after startFrames loud frames in a row
+ *   speech -> hangover on a quiet frame, back to speech when it gets loud again
+ *   hangover -> silence after hangoverMs, emitting the utterance
+ *
+ * The noise floor follows the quietest level of the last noiseWindowMs, which
+ * stays low during speech (pauses between words) but rises with steady
+ * background noise, so a noisy microphone needs to be louder to count as speech.
+ */
+export function createVoiceActivityDetector(
+  options: Partial<VadOptions> = {}
+): VoiceActivityDetector {
+  const config = { ...getDefaultVadOptions(), ...options };
+  const frameBytes = Math.round((config.sampleRate * config.frameMs) / 1000) * config.channels * 2;
+  const preRollFrames = Math.ceil(config.preRollMs / config.frameMs);
+  const postRollFrames = Math.ceil(config.postRollMs / config.frameMs);
+  const hangoverFrames = Math.ceil(config.hangoverMs / config.frameMs);
+  const maxFrames = Math.floor(config.maxUtteranceMs / config.frameMs);
+  const noiseWindowFrames = Math.max(1, Math.ceil(config.noiseWindowMs / config.frameMs));
+
+  let state: VadState = 'silence';
+  let noiseFloor = config.initialNoiseFloor;
+  const recentLevels: number[] = [];
+  let pending = Buffer.alloc(0); // Bytes that do not fill a frame yet
+  let frameIndex = 0; // Frames seen since the stream started
+
+  let preRoll: Buffer[] = [];
+  let frames: Buffer[] = []; // Current utterance, including pre-roll
+  let startFrame = 0;
+  let leadFrames = 0; // Pre-roll frames at the start of the current utterance
+  let loudFrames = 0; // Loud frames in a row while in maybe-speech
+  let quietFrames = 0; // Quiet frames in a row while in hangover
+
+  function isLoud(rms: number, ratio: number): boolean {
+    return rms >= config.minSpeechLevel && rms >= noiseFloor * ratio;
+  }
+
+  function updateNoiseFloor(rms: number): void {
+    recentLevels.push(rms);
+    if (recentLevels.length > noiseWindowFrames) recentLevels.shift();
+    const background = Math.min(...recentLevels);
+    noiseFloor += (background - noiseFloor) * config.noiseAdaptation;
+  }
+
+  function begin(): void {
+    frames = [...preRoll];
+    leadFrames = preRoll.length;
+    startFrame = frameIndex - preRoll.length;
+    preRoll = [];
+  }
+
+  function keepForPreRoll(frame: Buffer): void {
+    preRoll.push(frame);
+    if (preRoll.length > preRollFrames) preRoll.shift();
+  }
+
+  // Close the current utterance, dropping silence beyond the post-roll
+  function finish(trailingQuiet: number): Utterance | undefined {
+    const keep = frames.length - Math.max(0, trailingQuiet - postRollFrames);
+    const audio = Buffer.concat(frames.slice(0, keep));
+    // Pre-roll and post-roll do not count towards the minimum length
+    const spokenMs = (keep - leadFrames - Math.min(trailingQuiet, postRollFrames)) * config.frameMs;
+    const utterance: Utterance = {
+      audio,
+      startMs: startFrame * config.frameMs,
+      durationMs: pcmDurationMs(audio.length, config.sampleRate, config.channels),
+    };
+    frames = [];
+    leadFrames = 0;
+    return spokenMs >= config.minUtteranceMs ? utterance : undefined;
+  }
+
+  function processFrame(frame: Buffer): Utterance | undefined {
+    const rms = frameRms(frame);
+    let completed: Utterance | undefined;
+    updateNoiseFloor(rms);
+
+    switch (state) {
+      case 'silence':
+        if (isLoud(rms, config.startRatio)) {
+          begin();
+          frames.push(frame);
+          loudFrames = 1;
+          state = config.startFrames <= 1 ? 'speech' : 'maybe-speech';
+        } else {
+          keepForPreRoll(frame);
+        }
+        break;
+
+      case 'maybe-speech':
+        frames.push(frame);
+        if (isLoud(rms, config.startRatio)) {
+          loudFrames++;
+          if (loudFrames >= config.startFrames) state = 'speech';
+        } else {
+          // A short burst: treat it as background and keep it for the pre-roll
+          preRoll = preRollFrames > 0 ? frames.slice(-preRollFrames) : [];
+          frames = [];
+          state = 'silence';
+        }
+        break;
+
+      case 'speech':
+      case 'hangover':
+        frames.push(frame);
+        if (isLoud(rms, config.continueRatio)) {
+          state = 'speech';
+          quietFrames = 0;
+        } else {
+          state = 'hangover';
+          quietFrames++;
+          if (quietFrames >= hangoverFrames) {
+            completed = finish(quietFrames);
+            quietFrames = 0;
+            state = 'silence';
+            break;
+          }
+        }
+        if (frames.length >= maxFrames) {
+          completed = finish(state === 'hangover' ? quietFrames : 0);
+          startFrame = frameIndex + 1;
+          quietFrames = 0;
+        }
+        break;
+    }
+
+    frameIndex++;
+    return completed;
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    get noiseFloor() {
+      return noiseFloor;
+    },
+
+    push(chunk) {
+      const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      const utterances: Utterance[] = [];
+      let offset = 0;
+      for (; offset + frameBytes <= data.length; offset += frameBytes) {
+        const utterance = processFrame(data.subarray(offset, offset + frameBytes));
+        if (utterance) utterances.push(utterance);
+      }
+      pending = Buffer.from(data.subarray(offset));
+      return utterances;
+    },
+
+    flush() {
+      const inSpeech = state === 'speech' || state === 'hangover';
+      const utterance = inSpeech ? finish(state === 'hangover' ? quietFrames : 0) : undefined;
+      state = 'silence';
+      frames = [];
+      preRoll = [];
+      pending = Buffer.alloc(0);
+      quietFrames = 0;
+      loudFrames = 0;
+      return utterance;
+    },
+  };
+}
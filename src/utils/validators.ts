@@ -0,0 +1,120 @@
+import { Attendee, parseAttendees } from '../services/attendees';
+import { zonedTimeToUtc } from './timezone';
+
+// Result of validating a single user-provided field
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_ATTENDEES = 20;
+
+/**
+ * Validate an invitee email address
+ */
+export function validateEmail(input: string | null | undefined): ValidationResult<string> {
+  const value = input?.trim() || '';
+  if (!value) {
+    return { ok: false, error: 'An invitee email is required.' };
+  }
+  if (!EMAIL_PATTERN.test(value)) {
+    return { ok: false, error: `"${value}" is not a valid email address.` };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Validate a meeting duration such as "30", "45m", "1h" or "1h30m" and return minutes
+ */
+export function validateDuration(input: string | null | undefined): ValidationResult<number> {
+  const value = input?.trim().toLowerCase() || '';
+  if (!value) {
+    return { ok: false, error: 'A meeting duration is required.' };
+  }
+
+  let minutes = 0;
+  if (/^\d+$/.test(value)) {
+    minutes = parseInt(value, 10);
+  } else {
+    const match = value.match(/^(?:(\d+)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:ute)?s?)?)?$/);
+    if (!match || (!match[1] && !match[2])) {
+      return { ok: false, error: `"${input}" is not a valid duration. Try "30m", "1h" or "1h30m".` };
+    }
+    minutes = parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+  }
+
+  if (minutes < 5 || minutes > 8 * 60) {
+    return { ok: false, error: 'Duration must be between 5 minutes and 8 hours.' };
+  }
+  return { ok: true, value: minutes };
+}
+
+/**
+ * Validate a date and time such as "2025-06-23 14:30", read in the given
+ * timezone. Values with an explicit offset or Z are taken as-is.
+ */
+export function validateDateTime(
+  input: string | null | undefined,
+  label: string,
+  timezone: string
+): ValidationResult<Date> {
+  const value = input?.trim() || '';
+  if (!value) {
+    return { ok: false, error: `The ${label} is required.` };
+  }
+
+  const local = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})$/);
+  const date = local
+    ? zonedTimeToUtc(+local[1], +local[2], +local[3], +local[4], +local[5], timezone)
+    : /(Z|[+-]\d{2}:?\d{2})$/.test(value)
+    ? new Date(value)
+    : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    return { ok: false, error: `"${value}" is not a valid ${label}. Use a format like 2025-06-23 14:30.` };
+  }
+  return { ok: true, value: date };
+}
+
+/**
+ * Validate an optional free-text field with a maximum length
+ */
+export function validateText(
+  input: string | null | undefined,
+  label: string,
+  maxLength: number
+): ValidationResult<string> {
+  const value = input?.trim() || '';
+  if (value.length > maxLength) {
+    return { ok: false, error: `The ${label} must be at most ${maxLength} characters.` };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Validate a list of attendee emails and Discord @mentions
+ */
+export function validateAttendees(
+  input: string | null | undefined,
+  optional: boolean
+): ValidationResult<Attendee[]> {
+  const value = input?.trim() || '';
+  if (!value) {
+    return optional
+      ? { ok: true, value: [] }
+      : { ok: false, error: 'At least one attendee email or @mention is required.' };
+  }
+
+  const { attendees, invalid } = parseAttendees(value, optional);
+  if (invalid.length > 0) {
+    return {
+      ok: false,
+      error: `${invalid.map((token) => `"${token}"`).join(', ')} ${
+        invalid.length === 1 ? 'is not a valid email or @mention' : 'are not valid emails or @mentions'
+      }.`,
+    };
+  }
+  if (attendees.length > MAX_ATTENDEES) {
+    return { ok: false, error: `At most ${MAX_ATTENDEES} attendees are supported.` };
+  }
+  return { ok: true, value: attendees };
+}
@@ -0,0 +1,83 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage, setStorage } from '../src/services/storage';
+import { createInMemoryCalendarProvider, setCalendarProvider } from '../src/services/calendar';
+import {
+  bookMeeting,
+  cancelMeeting,
+  getBookedMeeting,
+  meetingToIcs,
+  rescheduleMeeting,
+} from '../src/services/booking';
+
+const ALICE = { email: 'alice@example.com', optional: false };
+const START = new Date('2030-01-07T09:00:00Z');
+const END = new Date('2030-01-07T09:30:00Z');
+const DAY = { start: new Date('2030-01-07T00:00:00Z'), end: new Date('2030-01-08T00:00:00Z') };
+
+let calendar: ReturnType<typeof createInMemoryCalendarProvider>;
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+  calendar = createInMemoryCalendarProvider();
+  setCalendarProvider(calendar);
+});
+
+async function aliceBusy() {
+  const busy = await calendar.getBusyIntervals([ALICE.email], DAY.start, DAY.end, 'UTC');
+  return busy[ALICE.email].map((interval) => interval.start.toISOString());
+}
+
+function book() {
+  return bookMeeting('organizer', {
+    title: 'Planning',
+    slot: { start: START, end: END, timezone: 'UTC', confidence: 1 },
+    attendees: [ALICE],
+    conference: true,
+  });
+}
+
+test('booking creates the event and blocks the attendees', async () => {
+  const meeting = await book();
+
+  assert.equal(calendar.listEvents().length, 1);
+  assert.ok(meeting.conferenceLink);
+  assert.equal(meeting.status, 'confirmed');
+  assert.equal(meeting.sequence, 0);
+  assert.deepEqual(getBookedMeeting(meeting.eventId), meeting);
+  assert.deepEqual(await aliceBusy(), [START.toISOString()]);
+  assert.match(meetingToIcs(meeting).content, /METHOD:REQUEST/);
+});
+
+test('rescheduling moves the event and keeps its duration', async () => {
+  const meeting = await book();
+  const newStart = new Date('2030-01-07T14:00:00Z');
+
+  const moved = await rescheduleMeeting(meeting.eventId, newStart, 'organizer');
+
+  assert.equal(moved.sequence, 1);
+  assert.equal(moved.uid, meeting.uid);
+  assert.equal(moved.request.slot.end.toISOString(), '2030-01-07T14:30:00.000Z');
+  assert.deepEqual(await aliceBusy(), [newStart.toISOString()]);
+  assert.equal(calendar.listEvents()[0].request.slot.start.toISOString(), newStart.toISOString());
+});
+
+test('only the organizer can change a meeting', async () => {
+  const meeting = await book();
+
+  await assert.rejects(rescheduleMeeting(meeting.eventId, END, 'someone-else'), /Only <@organizer>/);
+  await assert.rejects(cancelMeeting(meeting.eventId, 'someone-else'), /Only <@organizer>/);
+});
+
+test('cancelling removes the event and keeps the record for the cancellation', async () => {
+  const meeting = await book();
+
+  const cancelled = await cancelMeeting(meeting.eventId, 'organizer');
+
+  assert.equal(cancelled.status, 'cancelled');
+  assert.equal(cancelled.sequence, 1);
+  assert.equal(calendar.listEvents().length, 0);
+  assert.deepEqual(await aliceBusy(), []);
+  assert.match(meetingToIcs(cancelled).content, /METHOD:CANCEL/);
+  await assert.rejects(cancelMeeting(meeting.eventId, 'organizer'), /already cancelled/);
+});
@@ -0,0 +1,93 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage, setStorage } from '../src/services/storage';
+import { createInMemoryCalendarProvider, setCalendarProvider } from '../src/services/calendar';
+import { createScriptedLlmProvider, LlmRequest, setLlmProvider } from '../src/services/llm';
+import { setUserAvailability } from '../src/services/availability';
+import { advanceDialog, DialogContext } from '../src/services/dialog';
+import { addRoom, getRoomBusy } from '../src/services/rooms';
+
+const ALICE = { id: 'alice', name: 'Alice' };
+
+// Pick the first free slot the scheduler computed
+function pickFirstSlot(request: LlmRequest): string {
+  const [start, end] = request.messages[1].content.match(/^- (\S+) to (\S+)/m)?.slice(1) || [];
+  return JSON.stringify({
+    slots: [{ start, end, timezone: 'UTC', room: null, confidence: 0.9 }],
+    followUp: null,
+    summary: null,
+  });
+}
+
+let session = 0;
+let sessionId: string;
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+  setCalendarProvider(createInMemoryCalendarProvider());
+  setLlmProvider(createScriptedLlmProvider(Array(5).fill(pickFirstSlot)));
+  setUserAvailability(ALICE.id, {
+    timezone: 'UTC',
+    recurring: [],
+    exceptions: [],
+    source: 'manual',
+    updatedAt: new Date(),
+  });
+  sessionId = `session-${++session}`;
+});
+
+function say(text: string, context: DialogContext = {}) {
+  return advanceDialog(sessionId, { kind: 'text', text, speaker: ALICE }, context);
+}
+
+// Ask for a meeting and pick the first option, leaving it waiting for a yes
+async function pickFirstOption(
+  context: DialogContext = {},
+  request = 'Plan a review just me, 30 minutes tomorrow'
+) {
+  const proposed = await say(request, context);
+  assert.equal(proposed.dialog.state, 'proposing');
+  const picked = await say('option 1', context);
+  assert.equal(picked.dialog.state, 'confirming');
+}
+
+test('yes books the chosen option', async () => {
+  await pickFirstOption();
+  const turn = await say('Yes, go ahead');
+  assert.equal(turn.dialog.state, 'booked');
+  assert.ok(turn.meeting);
+});
+
+test('negated or mixed answers do not book or cancel', async () => {
+  await pickFirstOption();
+
+  for (const text of ["I'm not sure", 'not ok', "Don't cancel", 'yes, no wait']) {
+    const turn = await say(text);
+    assert.equal(turn.dialog.state, 'confirming', text);
+    assert.equal(turn.meeting, undefined, text);
+  }
+});
+
+test('no goes back to the options and cancel ends the dialog', async () => {
+  await pickFirstOption();
+  assert.equal((await say('No, not that one')).dialog.state, 'proposing');
+  assert.equal((await say('Never mind, cancel it')).dialog.state, 'cancelled');
+});
+
+test('a dialog booking reserves the smallest free room that fits everyone', async () => {
+  addRoom('guild-1', { name: 'Booth', capacity: 1, equipment: [] });
+  addRoom('guild-1', { name: 'Hall', capacity: 20, equipment: [] });
+  const room = addRoom('guild-1', { name: 'Focus', capacity: 4, location: '2F', equipment: [] });
+  const context = { guildId: 'guild-1' };
+
+  // Alice and a guest do not fit in the booth
+  await pickFirstOption(context, 'Plan a review with Bob, 30 minutes tomorrow');
+  const { meeting } = await say('yes', context);
+
+  assert.ok(meeting);
+  assert.equal(meeting.request.roomId, room.id);
+  assert.equal(meeting.request.room, 'Focus (2F)');
+  assert.deepEqual(getRoomBusy(room.id), [
+    { start: meeting.request.slot.start, end: meeting.request.slot.end },
+  ]);
+});
@@ -0,0 +1,54 @@
+// Synthetic 16-bit little-endian PCM in Discord's format (48 kHz stereo)
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+
+function samples(ms: number): number {
+  return Math.round((SAMPLE_RATE * ms) / 1000);
+}
+
+// Write the same value to every channel of each sample
+function render(ms: number, sampleAt: (index: number) => number): Buffer {
+  const count = samples(ms);
+  const buffer = Buffer.alloc(count * CHANNELS * 2);
+  for (let i = 0; i < count; i++) {
+    const value = Math.max(-32768, Math.min(32767, Math.round(sampleAt(i))));
+    for (let channel = 0; channel < CHANNELS; channel++) {
+      buffer.writeInt16LE(value, (i * CHANNELS + channel) * 2);
+    }
+  }
+  return buffer;
+}
+
+// Digital silence
+export function silence(ms: number): Buffer {
+  return Buffer.alloc(samples(ms) * CHANNELS * 2);
+}
+
+// A steady tone standing in for voiced speech; RMS is amplitude / sqrt(2)
+export function tone(ms: number, amplitude = 8000, frequency = 220): Buffer {
+  return render(ms, (i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+}
+
+// Deterministic low-level background hiss
+export function hiss(ms: number, amplitude = 60): Buffer {
+  let seed = 42;
+  return render(ms, () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed / 2147483648 - 0.5) * 2 * amplitude;
+  });
+}
+
+// Play several buffers at once; the result is as long as the longest
+export function mix(...buffers: Buffer[]): Buffer {
+  const length = Math.max(...buffers.map((buffer) => buffer.length));
+  const mixed = Buffer.alloc(length);
+  for (let offset = 0; offset + 1 < length; offset += 2) {
+    const sum = buffers.reduce(
+      (total, buffer) => total + (offset + 1 < buffer.length ? buffer.readInt16LE(offset) : 0),
+      0
+    );
+    mixed.writeInt16LE(Math.max(-32768, Math.min(32767, sum)), offset);
+  }
+  return mixed;
+}
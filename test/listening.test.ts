@@ -0,0 +1,59 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage, setStorage } from '../src/services/storage';
+import { filterAddressedSpeech, findWakePhrase, stopListening } from '../src/services/listening';
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+  stopListening('guild-1');
+});
+
+test('the wake phrase is found with small recognition errors', () => {
+  assert.equal(findWakePhrase('Hey scheduler, book a meeting tomorrow'), 'book a meeting tomorrow');
+  assert.equal(findWakePhrase('hay scheduler book a meeting'), 'book a meeting');
+  assert.equal(findWakePhrase('Hey schedular!'), '');
+  assert.equal(findWakePhrase('heyscheduler what is free on Monday'), 'what is free on Monday');
+  assert.equal(findWakePhrase('Okay, hey scheduler, cancel it'), 'cancel it');
+});
+
+test('words that only resemble the wake phrase do not wake the bot', () => {
+  assert.equal(findWakePhrase('Can you check her schedule for Friday?'), undefined);
+  assert.equal(findWakePhrase('He scheduled it yesterday'), undefined);
+  assert.equal(findWakePhrase('I will ask the scheduler later'), undefined);
+  assert.equal(findWakePhrase('hey'), undefined);
+  assert.equal(findWakePhrase('scheduler'), undefined);
+});
+
+test('short wake phrases must match exactly', () => {
+  assert.equal(findWakePhrase('bot, book it', 'bot'), 'book it');
+  assert.equal(findWakePhrase('but book it', 'bot'), undefined);
+});
+
+test('only speech with the wake phrase, or a follow-up to it, is addressed', () => {
+  assert.equal(filterAddressedSpeech('guild-1', 'user-1', 'He scheduled it yesterday'), undefined);
+  assert.deepEqual(filterAddressedSpeech('guild-1', 'user-1', 'Hey scheduler'), {
+    text: '',
+    wakeOnly: true,
+  });
+  assert.deepEqual(filterAddressedSpeech('guild-1', 'user-1', 'Tomorrow at ten'), {
+    text: 'Tomorrow at ten',
+    wakeOnly: false,
+  });
+  assert.equal(filterAddressedSpeech('guild-1', 'user-2', 'Tomorrow at ten'), undefined);
+});
+
+test('LISTENING_MODE and WAKE_PHRASE are read when speech is checked', () => {
+  process.env.WAKE_PHRASE = 'OK calendar';
+  try {
+    assert.equal(findWakePhrase('ok calendar, what is next'), 'what is next');
+    assert.equal(findWakePhrase('hey scheduler, what is next'), undefined);
+    process.env.LISTENING_MODE = 'always';
+    assert.deepEqual(filterAddressedSpeech('guild-1', 'user-1', 'what is next'), {
+      text: 'what is next',
+      wakeOnly: false,
+    });
+  } finally {
+    delete process.env.WAKE_PHRASE;
+    delete process.env.LISTENING_MODE;
+  }
+});
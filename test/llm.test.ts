@@ -0,0 +1,180 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage, setStorage } from '../src/services/storage';
+import { createInMemoryCalendarProvider, setCalendarProvider } from '../src/services/calendar';
+import { createScriptedLlmProvider, getLlmTaskSettings, setLlmProvider } from '../src/services/llm';
+import {
+  extractPreferenceConstraints,
+  getOptimalMeetingTimes,
+} from '../src/services/gpt-text-completions';
+import { getMeetingTimesByVoice } from '../src/services/gpt-voice-completions';
+import { setUserAvailability } from '../src/services/availability';
+
+const ALICE = { email: 'alice@example.com', optional: false };
+// Monday and Tuesday
+const RANGE = { start: new Date('2030-01-07T00:00:00Z'), end: new Date('2030-01-09T00:00:00Z') };
+
+let calendar: ReturnType<typeof createInMemoryCalendarProvider>;
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+  calendar = createInMemoryCalendarProvider();
+  setCalendarProvider(calendar);
+});
+
+test('preferences from the model are validated', async () => {
+  setLlmProvider(
+    createScriptedLlmProvider([
+      JSON.stringify({
+        preferredWindows: [
+          { start: '13:00', end: '17:00' },
+          { start: '25:00', end: '26:00' },
+          { start: '15:00', end: '14:00' },
+        ],
+        avoidWindows: [{ start: 'noon', end: '13:00' }],
+        preferredDays: [1, 3, 7, -1, 2.5, 3],
+        workingHours: { start: '09:00', end: '18:00', days: [1, 2, 9] },
+        bufferMinutes: -15,
+      }),
+    ])
+  );
+
+  const preferences = await extractPreferenceConstraints('afternoons', '', 'UTC');
+
+  assert.deepEqual(preferences, {
+    preferredWindows: [{ start: '13:00', end: '17:00' }],
+    avoidWindows: [],
+    preferredDays: [1, 3],
+    workingHours: { start: '09:00', end: '18:00', days: [1, 2] },
+    bufferMinutes: 0,
+  });
+});
+
+test('the prompt uses the same part-of-day windows as the date parser', async () => {
+  const provider = createScriptedLlmProvider(['{}']);
+  setLlmProvider(provider);
+
+  await extractPreferenceConstraints('in the afternoon', '', 'UTC');
+
+  assert.match(provider.requests[0].messages[1].content, /"afternoon" is 12:00-17:00/);
+});
+
+test('a failing model falls back to no preferences', async () => {
+  setLlmProvider(createScriptedLlmProvider(['not json']));
+  assert.deepEqual(await extractPreferenceConstraints('mornings', '', 'UTC'), {
+    preferredWindows: [],
+    avoidWindows: [],
+    preferredDays: [],
+    workingHours: null,
+    bufferMinutes: null,
+  });
+});
+
+test('meeting times come from the solver; the model only reads preferences and explains', async () => {
+  calendar.addBusy(ALICE.email, {
+    start: new Date('2030-01-07T09:00:00Z'),
+    end: new Date('2030-01-07T12:00:00Z'),
+  });
+  const provider = createScriptedLlmProvider([
+    JSON.stringify({
+      preferredWindows: [{ start: '14:00', end: '16:00' }],
+      avoidWindows: [],
+      preferredDays: [],
+      workingHours: null,
+      bufferMinutes: null,
+    }),
+    'All three are in the afternoon.',
+  ]);
+  setLlmProvider(provider);
+
+  const proposal = await getOptimalMeetingTimes([ALICE], 30, '', RANGE, 'afternoon', [], 'UTC');
+
+  assert.deepEqual(
+    provider.requests.map((request) => request.task),
+    ['preferences', 'explanation']
+  );
+  assert.equal(proposal.explanation, 'All three are in the afternoon.');
+  assert.equal(proposal.slots.length, 3);
+  for (const slot of proposal.slots) {
+    assert.ok(slot.start.getUTCHours() >= 14 && slot.end.getUTCHours() <= 16, slot.start.toISOString());
+  }
+});
+
+test('attendees with only an uploaded schedule do not need the calendar', async () => {
+  setCalendarProvider({
+    ...createInMemoryCalendarProvider(),
+    getBusyIntervals: async () => {
+      throw new Error('No calendar credentials');
+    },
+  });
+  setUserAvailability('bob', {
+    timezone: 'UTC',
+    recurring: [],
+    exceptions: [],
+    source: 'image',
+    updatedAt: new Date(),
+  });
+  setLlmProvider(createScriptedLlmProvider(['Any of these works.']));
+
+  const proposal = await getOptimalMeetingTimes(
+    [{ discordId: 'bob', optional: false }],
+    30,
+    '',
+    RANGE,
+    '',
+    [],
+    'UTC'
+  );
+
+  assert.equal(proposal.slots.length, 3);
+  assert.deepEqual(proposal.unresolved, []);
+});
+
+test('voice picks that are not one of the computed free slots are dropped', async () => {
+  setUserAvailability('alice', {
+    timezone: 'UTC',
+    recurring: [],
+    exceptions: [],
+    source: 'manual',
+    updatedAt: new Date(),
+  });
+  const provider = createScriptedLlmProvider([
+    (request) => {
+      // First computed slot, the same slot shifted by five minutes, and the first slot again
+      const [start, end] = request.messages[1].content.match(/^- (\S+) to (\S+)$/m)?.slice(1) || [];
+      const shift = (iso: string) => new Date(new Date(iso).getTime() + 5 * 60 * 1000).toISOString();
+      return JSON.stringify({
+        slots: [
+          { start, end, timezone: 'UTC', room: null, confidence: 0.9 },
+          { start: shift(start), end: shift(end), timezone: 'UTC', room: null, confidence: 0.8 },
+          { start, end, timezone: 'UTC', room: null, confidence: 0.7 },
+        ],
+        followUp: null,
+        summary: null,
+      });
+    },
+  ]);
+  setLlmProvider(provider);
+
+  const result = await getMeetingTimesByVoice('Alice: any time works', {
+    people: [{ id: 'alice', name: 'Alice' }],
+    durationMinutes: 30,
+  });
+
+  assert.equal(result.slots.length, 1);
+  assert.equal(result.slots[0].confidence, 0.9);
+  assert.match(
+    provider.requests[0].messages[1].content,
+    new RegExp(`- ${result.slots[0].start.toISOString()} to`)
+  );
+});
+
+test('LLM_MODEL is read when settings are requested', () => {
+  process.env.LLM_MODEL = 'llama3';
+  try {
+    assert.equal(getLlmTaskSettings('preferences').model, 'llama3');
+    assert.equal(getLlmTaskSettings('vision').maxTokens, 2000);
+  } finally {
+    delete process.env.LLM_MODEL;
+  }
+});
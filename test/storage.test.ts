@@ -0,0 +1,60 @@
+import { after, afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonFileStorage, STORAGE_SCHEMA_VERSION } from '../src/services/storage';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+const filePath = path.join(dir, 'store.json');
+
+afterEach(() => {
+  fs.rmSync(filePath, { force: true });
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('a file written before versioning is migrated', () => {
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({
+      collections: {
+        schedules: { u1: { value: 'Mon 9-5' } },
+        bookings: { e1: { value: { eventId: 'e1', organizerId: 'u1' } } },
+      },
+    })
+  );
+
+  const storage = createJsonFileStorage(filePath);
+
+  assert.deepEqual(storage.entries('schedules'), []);
+  assert.deepEqual(storage.get('bookings', 'e1'), {
+    eventId: 'e1',
+    organizerId: 'u1',
+    uid: 'e1@discord-scheduler-assistant',
+    sequence: 0,
+    status: 'confirmed',
+  });
+
+  storage.flush();
+  assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf8')).version, STORAGE_SCHEMA_VERSION);
+});
+
+test('dates survive a write and reload', () => {
+  const start = new Date('2030-01-07T09:00:00Z');
+  const storage = createJsonFileStorage(filePath);
+  storage.set('bookings', 'e1', { start });
+  storage.flush();
+
+  const reloaded = createJsonFileStorage(filePath);
+  const value = reloaded.get<{ start: Date }>('bookings', 'e1');
+  assert.ok(value?.start instanceof Date);
+  assert.equal(value.start.getTime(), start.getTime());
+});
+
+test('a file from a newer version is refused', () => {
+  fs.writeFileSync(filePath, JSON.stringify({ version: STORAGE_SCHEMA_VERSION + 1, collections: {} }));
+  assert.throws(() => createJsonFileStorage(filePath), /newer than supported/);
+});
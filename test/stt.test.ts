@@ -0,0 +1,101 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createMemoryStorage, setStorage } from '../src/services/storage';
+import {
+  AudioInput,
+  createFixtureSttProvider,
+  parseWhisperCppOutput,
+  setSttProvider,
+  TranscribeOptions,
+} from '../src/services/stt';
+import { handleUtterance } from '../src/services/whisper';
+import { getWakePhrase } from '../src/services/listening';
+import { createVoiceActivityDetector } from '../src/utils/vad';
+import { silence, tone } from './fixtures/pcm';
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+test('fixtures are picked by file name, then in order', async () => {
+  const stt = createFixtureSttProvider({ 'a.wav': 'first clip' });
+  const queued = createFixtureSttProvider(['one', 'two']);
+
+  assert.equal((await stt.transcribe({ data: Buffer.alloc(0), filename: 'a.wav' })).text, 'first clip');
+  await assert.rejects(
+    stt.transcribe({ data: Buffer.alloc(0), filename: 'b.wav' }),
+    /No transcription fixture for b.wav/
+  );
+  assert.deepEqual(stt.calls, ['a.wav', 'b.wav']);
+
+  assert.equal((await queued.transcribe('x.wav')).text, 'one');
+  assert.equal((await queued.transcribe('y.wav')).text, 'two');
+});
+
+test('a sidecar transcript next to the audio file is used', async () => {
+  const transcription = await createFixtureSttProvider().transcribe(
+    path.join(__dirname, 'fixtures', 'standup.wav')
+  );
+
+  assert.equal(transcription.text, 'Hey scheduler, book the standup for tomorrow at ten');
+  assert.equal(transcription.language, 'en');
+  assert.deepEqual(transcription.segments, []);
+  assert.equal(transcription.words.length, 1);
+});
+
+test('whisper.cpp output is turned into words with timings', () => {
+  const transcription = parseWhisperCppOutput({
+    result: { language: 'english' },
+    transcription: [
+      {
+        text: ' Book a meeting',
+        offsets: { from: 0, to: 1500 },
+        tokens: [
+          { text: '[_BEG_]', offsets: { from: 0, to: 0 } },
+          { text: ' Bo', offsets: { from: 0, to: 300 } },
+          { text: 'ok', offsets: { from: 300, to: 500 } },
+          { text: ' a', offsets: { from: 500, to: 700 } },
+          { text: ' meeting', offsets: { from: 700, to: 1500 } },
+        ],
+      },
+    ],
+  });
+
+  assert.equal(transcription.text, 'Book a meeting');
+  assert.equal(transcription.language, 'en');
+  assert.equal(transcription.duration, 1.5);
+  assert.deepEqual(transcription.words, [
+    { word: 'Book', start: 0, end: 0.5 },
+    { word: 'a', start: 0.5, end: 0.7 },
+    { word: 'meeting', start: 0.7, end: 1.5 },
+  ]);
+});
+
+test('a voice utterance is sent to the recognizer as 16 kHz mono WAV', async () => {
+  const fixture = createFixtureSttProvider(['']);
+  const received = new Promise<{ audio: AudioInput; options?: TranscribeOptions }>((resolve) => {
+    setSttProvider({
+      name: 'capture',
+      async transcribe(audio, options) {
+        const transcription = await fixture.transcribe(audio, options);
+        resolve({ audio, options });
+        return transcription;
+      },
+    });
+  });
+
+  const vad = createVoiceActivityDetector();
+  const [utterance] = vad.push(Buffer.concat([silence(500), tone(1000), silence(1500)]));
+  handleUtterance('guild-1', 'user-1', utterance);
+  const { audio, options } = await received;
+
+  assert.ok(typeof audio !== 'string' && Buffer.isBuffer(audio.data));
+  assert.match(audio.filename, /^user-1-\d+\.wav$/);
+  assert.equal(audio.data.toString('ascii', 0, 4), 'RIFF');
+  assert.equal(audio.data.readUInt16LE(22), 1); // Channels
+  assert.equal(audio.data.readUInt32LE(24), 16000); // Sample rate
+  // 1.6 s of 16-bit samples after the 44-byte header
+  assert.equal(audio.data.length, 44 + 1.6 * 16000 * 2);
+  assert.equal(options?.prompt, getWakePhrase());
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVoiceActivityDetector, getDefaultVadOptions } from '../src/utils/vad';
+import { hiss, mix, silence, tone } from './fixtures/pcm';
+
+// Run a whole stream through a fresh detector
+function detect(...chunks: Buffer[]) {
+  const vad = createVoiceActivityDetector();
+  const utterances = chunks.flatMap((chunk) => vad.push(chunk));
+  const flushed = vad.flush();
+  return flushed ? [...utterances, flushed] : utterances;
+}
+
+test('silence and background hiss produce no utterances', () => {
+  const vad = createVoiceActivityDetector();
+  assert.deepEqual(vad.push(silence(2000)), []);
+  assert.deepEqual(vad.push(hiss(2000)), []);
+  assert.equal(vad.state, 'silence');
+  assert.equal(vad.flush(), undefined);
+});
+
+test('speech between silences is one utterance with pre- and post-roll', () => {
+  const [utterance, ...rest] = detect(silence(500), tone(1000), silence(1500));
+  assert.equal(rest.length, 0);
+  assert.ok(utterance);
+  // 300 ms pre-roll + 1000 ms speech + 300 ms post-roll
+  assert.equal(utterance.startMs, 200);
+  assert.equal(utterance.durationMs, 1600);
+});
+
+test('speech split across odd-sized chunks is framed the same way', () => {
+  const stream = Buffer.concat([silence(500), tone(1000), silence(1500)]);
+  const vad = createVoiceActivityDetector();
+  const utterances = [];
+  for (let offset = 0; offset < stream.length; offset += 1234) {
+    utterances.push(...vad.push(stream.subarray(offset, offset + 1234)));
+  }
+  assert.equal(utterances.length, 1);
+  assert.equal(utterances[0].durationMs, 1600);
+});
+
+test('a pause shorter than the hangover keeps the utterance going', () => {
+  const utterances = detect(silence(500), tone(600), silence(500), tone(600), silence(1500));
+  assert.equal(utterances.length, 1);
+  assert.equal(utterances[0].durationMs, 300 + 600 + 500 + 600 + 300);
+});
+
+test('a pause longer than the hangover ends the utterance', () => {
+  const utterances = detect(silence(500), tone(600), silence(1200), tone(600), silence(1500));
+  assert.equal(utterances.length, 2);
+  assert.ok(utterances[1].startMs > utterances[0].startMs + utterances[0].durationMs);
+});
+
+test('the detector waits in hangover before going back to silence', () => {
+  const vad = createVoiceActivityDetector();
+  vad.push(Buffer.concat([silence(500), tone(600), silence(400)]));
+  assert.equal(vad.state, 'hangover');
+  vad.push(silence(600));
+  assert.equal(vad.state, 'silence');
+});
+
+test('bursts shorter than the minimum speech length are dropped', () => {
+  // Long enough to pass startFrames, too short for minUtteranceMs
+  assert.deepEqual(detect(silence(500), tone(100), silence(1500)), []);
+  // Too short to even leave maybe-speech
+  const vad = createVoiceActivityDetector();
+  vad.push(Buffer.concat([silence(500), tone(40), silence(100)]));
+  assert.equal(vad.state, 'silence');
+});
+
+test('the noise floor adapts to steady background noise', () => {
+  // RMS around 520, above the start threshold of the initial noise floor
+  const noise = (ms: number) => hiss(ms, 900);
+
+  // With a fixed floor the noise itself counts as speech
+  const fixed = createVoiceActivityDetector({ noiseAdaptation: 0 });
+  fixed.push(noise(5000));
+  assert.equal(fixed.state, 'speech');
+
+  const vad = createVoiceActivityDetector();
+  assert.deepEqual(vad.push(noise(5000)), []);
+  assert.equal(vad.state, 'silence');
+  assert.ok(vad.noiseFloor > 300);
+
+  // Speech over the same noise is still picked up
+  const utterances = vad.push(Buffer.concat([mix(tone(1000), noise(1000)), noise(1500)]));
+  assert.equal(utterances.length, 1);
+  assert.equal(utterances[0].durationMs, 1600);
+});
+
+test('speech longer than the maximum is split', () => {
+  const vad = createVoiceActivityDetector({ maxUtteranceMs: 1000 });
+  const utterances = vad.push(Buffer.concat([silence(500), tone(2400)]));
+  assert.equal(utterances.length, 2);
+  assert.equal(vad.state, 'speech');
+});
+
+test('VAD_* variables are read when a detector is created', () => {
+  process.env.VAD_HANGOVER_MS = '1500';
+  try {
+    assert.equal(getDefaultVadOptions().hangoverMs, 1500);
+    // A 1.2 s pause no longer ends the utterance
+    const utterances = detect(silence(500), tone(600), silence(1200), tone(600), silence(2500));
+    assert.equal(utterances.length, 1);
+  } finally {
+    delete process.env.VAD_HANGOVER_MS;
+  }
+});